@@ -3,11 +3,16 @@
  * Shared types and interfaces for VibeForge platform
  */
 Object.defineProperty(exports, "__esModule", { value: true });
-exports.DeploymentError = exports.AssumeRoleError = exports.BedrockAccessError = exports.Environment = exports.Blueprint = void 0;
+exports.DeploymentError = exports.AssumeRoleError = exports.TestFailureError = exports.CodeVerificationError = exports.SafetyError = exports.SpecLintError = exports.SpecValidationError = exports.ModelCapabilityError = exports.BedrockServiceError = exports.BedrockAccessError = exports.Environment = exports.Blueprint = void 0;
+/**
+ * Blueprints shipped with the control service. More can be discovered from
+ * BLUEPRINT_DIRS, so blueprint fields hold any registered blueprint name.
+ */
 var Blueprint;
 (function (Blueprint) {
     Blueprint["SERVERLESS"] = "serverless";
     Blueprint["CONTAINERS"] = "containers";
+    Blueprint["STATIC"] = "static";
 })(Blueprint || (exports.Blueprint = Blueprint = {}));
 var Environment;
 (function (Environment) {
@@ -26,6 +31,78 @@ class BedrockAccessError extends Error {
     }
 }
 exports.BedrockAccessError = BedrockAccessError;
+class BedrockServiceError extends Error {
+    kind;
+    region;
+    modelId;
+    constructor(kind, region, modelId, message) {
+        super(message || `Bedrock ${kind} error for ${modelId} in ${region}`);
+        this.kind = kind;
+        this.region = region;
+        this.modelId = modelId;
+        this.name = 'BedrockServiceError';
+    }
+}
+exports.BedrockServiceError = BedrockServiceError;
+/**
+ * The configured model (and every fallback) can't take part of the request, e.g. images
+ */
+class ModelCapabilityError extends Error {
+    capability;
+    modelId;
+    constructor(capability, modelId, message) {
+        super(message || `${modelId} does not support ${capability}`);
+        this.capability = capability;
+        this.modelId = modelId;
+        this.name = 'ModelCapabilityError';
+    }
+}
+exports.ModelCapabilityError = ModelCapabilityError;
+class SpecValidationError extends Error {
+    errors;
+    constructor(errors, message) {
+        super(message || `Generated spec failed validation: ${errors.join('; ')}`);
+        this.errors = errors;
+        this.name = 'SpecValidationError';
+    }
+}
+exports.SpecValidationError = SpecValidationError;
+class SpecLintError extends Error {
+    findings;
+    constructor(findings, message) {
+        super(message || `Spec has ${findings.length} lint error(s): ${findings.map((f) => `${f.path}: ${f.message}`).join('; ')}`);
+        this.findings = findings;
+        this.name = 'SpecLintError';
+    }
+}
+exports.SpecLintError = SpecLintError;
+class SafetyError extends Error {
+    findings;
+    constructor(findings, message) {
+        super(message || `Blocked by safety screening: ${findings.map((f) => f.message).join('; ')}`);
+        this.findings = findings;
+        this.name = 'SafetyError';
+    }
+}
+exports.SafetyError = SafetyError;
+class CodeVerificationError extends Error {
+    errors;
+    constructor(errors, message) {
+        super(message || `Generated code failed to compile: ${errors.join('; ')}`);
+        this.errors = errors;
+        this.name = 'CodeVerificationError';
+    }
+}
+exports.CodeVerificationError = CodeVerificationError;
+class TestFailureError extends Error {
+    failures;
+    constructor(failures, message) {
+        super(message || `Generated tests failed: ${failures.length} failing`);
+        this.failures = failures;
+        this.name = 'TestFailureError';
+    }
+}
+exports.TestFailureError = TestFailureError;
 class AssumeRoleError extends Error {
     constructor(message) {
         super(message);
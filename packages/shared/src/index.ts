@@ -2,9 +2,41 @@
  * Shared types and interfaces for VibeForge platform
  */
 
+/**
+ * Blueprints shipped with the control service. More can be discovered from
+ * BLUEPRINT_DIRS, so blueprint fields hold any registered blueprint name.
+ */
 export enum Blueprint {
   SERVERLESS = 'serverless',
   CONTAINERS = 'containers',
+  STATIC = 'static',
+}
+
+/**
+ * Spec features a blueprint can build, declared in its blueprint.json
+ */
+export interface BlueprintFeatures {
+  /** Serves the spec's api endpoints */
+  api: boolean;
+  /** Provisions the spec's dataModel tables */
+  dataModel: boolean;
+  /** Supports specs with auth:true */
+  auth: boolean;
+  /** Renders a handler file per endpoint that the model may write */
+  handlers: boolean;
+  /** Tables are DynamoDB tables that seed records are loaded into */
+  seedData: boolean;
+  /** Tables are Postgres tables created by versioned SQL migrations */
+  migrations: boolean;
+}
+
+export interface BlueprintInfo {
+  name: string;
+  displayName: string;
+  description: string;
+  features: BlueprintFeatures;
+  /** False for blueprints discovered from BLUEPRINT_DIRS */
+  builtIn: boolean;
 }
 
 export enum Environment {
@@ -17,7 +49,7 @@ export enum Environment {
  */
 export interface AppSpec {
   name: string;
-  blueprint: Blueprint;
+  blueprint: string;
   pages: PageSpec[];
   api: ApiEndpointSpec[];
   dataModel: DataModelSpec[];
@@ -37,6 +69,8 @@ export interface GeneratedCode {
   pages: Record<string, string>; // route -> TSX code
   components: Record<string, string>; // component name -> TSX code
   lib: Record<string, string>; // utility file name -> TS code
+  handlers?: Record<string, string>; // API handler name -> TS code, for handlers the template can't express
+  tests?: Record<string, string>; // component name -> render test TSX
 }
 
 export interface ApiEndpointSpec {
@@ -45,6 +79,7 @@ export interface ApiEndpointSpec {
   handler: string;
   description?: string;
   requiresAuth?: boolean;
+  table?: string; // DataModelSpec.table this endpoint reads or writes
 }
 
 export interface DataModelSpec {
@@ -89,17 +124,28 @@ export interface DeploymentResult {
   previewUrl?: string;
   prodUrl?: string;
   apiUrl?: string;
+  /** Container image the stack runs, tagged with the app repo's git commit */
+  image?: string;
   status: 'success' | 'failed';
   error?: string;
 }
 
+/**
+ * Drafts hold a planned spec that has not been rendered or deployed yet
+ */
+export type AppStatus = 'draft' | 'built';
+
 /**
  * App manifest stored in .vibe/manifest.json
  */
 export interface AppManifest {
   appId: string;
   appName: string;
-  blueprint: Blueprint;
+  stackName?: string; // sanitized name the stacks are named after; missing on older apps, which use the sanitized appName
+  blueprint: string;
+  status?: AppStatus; // missing on apps created before plan-only mode, which are built
+  prompt?: string; // the prompt the app was generated or planned from; missing on imports
+  mockups?: string[]; // images planned with the prompt, relative to .vibe/, used again when the draft is built
   spec: AppSpec;
   accountId: string;
   region: string;
@@ -109,6 +155,90 @@ export interface AppManifest {
     dev?: DeploymentResult;
     prod?: DeploymentResult;
   };
+  usage?: UsageTotals; // Bedrock usage across every job for this app
+  modelCalls?: ModelCall[]; // models that served the most recent job's Bedrock calls
+}
+
+/**
+ * One entry of the append-only conversation log in .vibe/conversation.jsonl
+ */
+export type ConversationOperation = 'generate' | 'plan' | 'edit' | 'build' | 'import' | 'iterate';
+
+export interface ConversationTurn {
+  turn: number; // 1-based position in the log
+  timestamp: string;
+  operation: ConversationOperation;
+  jobId?: string;
+  prompt?: string; // what the user asked for; missing on builds, imports and manual edits
+  response: string; // summary of how the spec changed in reply
+  specVersion: number; // bumped whenever the spec differs from the previous turn's
+  spec: AppSpec; // the resulting spec, without generated code
+  commit?: string; // app repo commit the turn produced; drafts have none
+}
+
+export interface ConversationResponse {
+  appId: string;
+  prompt?: string;
+  turns: ConversationTurn[];
+}
+
+/**
+ * Bedrock token usage and estimated cost
+ */
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface UsageRecord {
+  timestamp: string;
+  jobId: string;
+  appId?: string;
+  operation: string; // generate, plan, build, iterate, ...
+  modelId: string;
+  region?: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/**
+ * A model call that is still streaming
+ */
+export interface CallProgress {
+  label: string;
+  outputTokens: number;
+  elapsedMs: number;
+  /** Time since output last arrived; it keeps growing on a stalled call */
+  idleMs: number;
+}
+
+/**
+ * The model and region that actually served one Bedrock call
+ */
+export interface ModelCall {
+  label?: string; // what the call produced, e.g. "Writing web/src/pages/index.tsx"
+  modelId: string;
+  region: string;
+  fallback: boolean; // served by an entry of BEDROCK_FALLBACK_MODELS
+  retries: number; // throttling or availability retries before it succeeded
+}
+
+export interface UsageLimits {
+  dailyUsd?: number;
+  monthlyUsd?: number;
+  todayUsd: number;
+  monthUsd: number;
+}
+
+export interface UsageResponse {
+  totals: UsageTotals;
+  byApp: Record<string, UsageTotals>;
+  byDay: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  limits: UsageLimits;
 }
 
 /**
@@ -154,12 +284,54 @@ export interface CheckConnectionResponse {
   error?: string;
 }
 
+/**
+ * A wireframe, sketch or screenshot sent with a generate or plan request
+ */
+export type ImageMediaType = 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp';
+
+export interface MockupImage {
+  name?: string;
+  mediaType: ImageMediaType;
+  data: string; // base64, without a data: URL prefix
+}
+
 export interface GenerateRequest {
   accountId: string;
   region: string;
-  blueprint: Blueprint;
+  blueprint: string;
   prompt: string;
   appName: string;
+  images?: MockupImage[];
+}
+
+export interface TestSummary {
+  passed: number;
+  failed: number;
+  /** Full names of the failing tests, prefixed with api/ or web/ */
+  failures: string[];
+}
+
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintFinding {
+  rule: string;
+  severity: LintSeverity;
+  /** Dotted path into the spec, e.g. dataModel.0.secondaryIndexes.1.partitionKey */
+  path: string;
+  message: string;
+  /** Set when the linter corrected the spec in place */
+  fixed?: boolean;
+}
+
+export type SafetyAction = 'block' | 'warn';
+
+export interface SafetyFinding {
+  rule: string;
+  action: SafetyAction;
+  message: string;
+  /** Repo-relative file and 1-based line, for findings in generated files */
+  file?: string;
+  line?: number;
 }
 
 export interface GenerateResponse {
@@ -168,6 +340,32 @@ export interface GenerateResponse {
   previewUrl: string;
   stackName: string;
   outputs: StackOutputs;
+  lint?: LintFinding[];
+  safety?: SafetyFinding[];
+  tests?: TestSummary;
+  seed?: SeedTableResult[];
+  usage?: UsageTotals;
+  modelCalls?: ModelCall[];
+}
+
+export type SpecFormat = 'json' | 'yaml';
+
+export interface ImportRequest {
+  accountId: string;
+  region: string;
+  appName?: string; // defaults to spec.name
+  spec: string | AppSpec; // JSON or YAML document, or an already-parsed spec
+}
+
+export type PlanRequest = GenerateRequest;
+
+export interface PlanResponse {
+  appId: string;
+  spec: AppSpec;
+  lint?: LintFinding[];
+  safety?: SafetyFinding[];
+  usage?: UsageTotals;
+  modelCalls?: ModelCall[];
 }
 
 export interface PublishRequest {
@@ -183,15 +381,42 @@ export interface PublishResponse {
   outputs: StackOutputs;
 }
 
+export interface IterateRequest {
+  accountId: string;
+  region: string;
+  prompt: string;
+}
+
+export interface IterateResponse {
+  appId: string;
+  spec: AppSpec;
+  previewUrl: string;
+  stackName: string;
+  outputs: StackOutputs;
+  commit: string;
+  changedFiles: string[];
+  lint?: LintFinding[];
+  safety?: SafetyFinding[];
+  tests?: TestSummary;
+  seed?: SeedTableResult[];
+  usage?: UsageTotals;
+  modelCalls?: ModelCall[];
+}
+
 export interface AppListItem {
   appId: string;
   appName: string;
-  blueprint: Blueprint;
+  blueprint: string;
+  status: AppStatus;
   devUrl?: string;
   prodUrl?: string;
   createdAt: string;
 }
 
+export interface BlueprintsResponse {
+  blueprints: BlueprintInfo[];
+}
+
 export interface DestroyRequest {
   accountId: string;
   region: string;
@@ -205,6 +430,29 @@ export interface DestroyResponse {
   message: string;
 }
 
+/** reseed replaces dev table contents with the seed records, clear empties the tables */
+export type SeedAction = 'reseed' | 'clear';
+
+export interface SeedRequest {
+  accountId: string;
+  region: string;
+  action: SeedAction;
+}
+
+export interface SeedTableResult {
+  table: string;
+  tableName: string;
+  written: number;
+  deleted: number;
+  /** Why the table was left alone, e.g. it already had items */
+  skipped?: string;
+}
+
+export interface SeedResponse {
+  appId: string;
+  tables: SeedTableResult[];
+}
+
 /**
  * Error types
  */
@@ -228,6 +476,88 @@ export class BedrockAccessError extends Error {
   }
 }
 
+/**
+ * How a failed Bedrock call failed: throttled, unavailable and timeout are
+ * retried; access and model errors move on to the next fallback model
+ */
+export type BedrockErrorKind = 'throttled' | 'unavailable' | 'timeout' | 'access' | 'model' | 'other';
+
+export class BedrockServiceError extends Error {
+  constructor(
+    public kind: BedrockErrorKind,
+    public region: string,
+    public modelId: string,
+    message?: string
+  ) {
+    super(message || `Bedrock ${kind} error for ${modelId} in ${region}`);
+    this.name = 'BedrockServiceError';
+  }
+}
+
+/**
+ * The configured model (and every fallback) can't take part of the request, e.g. images
+ */
+export class ModelCapabilityError extends Error {
+  constructor(
+    public capability: string,
+    public modelId: string,
+    message?: string
+  ) {
+    super(message || `${modelId} does not support ${capability}`);
+    this.name = 'ModelCapabilityError';
+  }
+}
+
+export class SpecValidationError extends Error {
+  constructor(
+    public errors: string[],
+    message?: string
+  ) {
+    super(message || `Generated spec failed validation: ${errors.join('; ')}`);
+    this.name = 'SpecValidationError';
+  }
+}
+
+export class SpecLintError extends Error {
+  constructor(
+    public findings: LintFinding[],
+    message?: string
+  ) {
+    super(message || `Spec has ${findings.length} lint error(s): ${findings.map((f) => `${f.path}: ${f.message}`).join('; ')}`);
+    this.name = 'SpecLintError';
+  }
+}
+
+export class SafetyError extends Error {
+  constructor(
+    public findings: SafetyFinding[],
+    message?: string
+  ) {
+    super(message || `Blocked by safety screening: ${findings.map((f) => f.message).join('; ')}`);
+    this.name = 'SafetyError';
+  }
+}
+
+export class CodeVerificationError extends Error {
+  constructor(
+    public errors: string[],
+    message?: string
+  ) {
+    super(message || `Generated code failed to compile: ${errors.join('; ')}`);
+    this.name = 'CodeVerificationError';
+  }
+}
+
+export class TestFailureError extends Error {
+  constructor(
+    public failures: string[],
+    message?: string
+  ) {
+    super(message || `Generated tests failed: ${failures.length} failing`);
+    this.name = 'TestFailureError';
+  }
+}
+
 export class AssumeRoleError extends Error {
   constructor(message: string) {
     super(message);
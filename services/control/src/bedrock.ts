@@ -1,208 +1,407 @@
-import {
-  BedrockRuntimeClient,
-  InvokeModelCommand,
-} from '@aws-sdk/client-bedrock-runtime';
-import { AppSpec, BedrockAccessError, GeneratedCode } from '@aws-vibe/shared';
+import { AppSpec, BedrockAccessError, BedrockServiceError, ConversationTurn, MockupImage, ModelCapabilityError, SpecValidationError } from '@aws-vibe/shared';
 import { AssumedCredentials } from './util/aws';
+import { intSetting } from './util/env';
+import {
+  getModelAdapter,
+  classifyBedrockError,
+  shouldFallBack,
+  modelChain,
+  withRetries,
+  ModelChainEntry,
+  ModelMessage,
+  ModelRequest,
+  ModelResponse,
+  ModelTool,
+} from './models';
+import { getPrompts } from './prompts';
+import { usageTracker } from './usage';
+import { statusTracker } from './statusTracker';
+import { resolveEndpointBindings, describeResponse, EndpointBinding } from './scaffold/bindings';
+import { validateAppSpec, appSpecJsonSchema, codePlanSchema, codePlanJsonSchema } from './scaffold/specSchema';
+import { formatFinding, lintErrors, lintSpec } from './scaffold/lintSpec';
+import { blueprintPrompt } from './scaffold/blueprintRegistry';
 
 const BEDROCK_REGION = process.env.BEDROCK_REGION || 'us-east-1';
 const BEDROCK_MODEL_ID =
   process.env.BEDROCK_MODEL_ID || 'anthropic.claude-3-5-sonnet-20241022-v2:0';
 
+const MAX_CONTINUATIONS = 3;
+const MOCKUP_NOTE =
+  'The attached images are mockups of this application (wireframes, sketches or screenshots). Follow their pages, fields, layout and navigation wherever they fit the requirements.';
+const CONTINUE_PROMPT =
+  'Your previous response was cut off. Continue exactly where it stopped, without repeating anything and without any preamble.';
+
+const SPEC_TOOL: ModelTool = {
+  name: 'submit_app_spec',
+  description: 'Submit the complete application specification.',
+  inputSchema: appSpecJsonSchema,
+};
+
+const PLAN_TOOL: ModelTool = {
+  name: 'submit_code_plan',
+  description: 'Submit the list of source files to generate and the files each one imports.',
+  inputSchema: codePlanJsonSchema,
+};
+
+const FILE_TOOL: ModelTool = {
+  name: 'submit_file',
+  description: 'Submit the complete content of the requested source file.',
+  inputSchema: {
+    type: 'object',
+    properties: { code: { type: 'string' } },
+    required: ['code'],
+  },
+};
+
 /**
  * Generate app specification using Amazon Bedrock
  */
 export async function generateSpec(
   prompt: string,
   blueprint: string,
-  credentials: AssumedCredentials
+  credentials: AssumedCredentials,
+  onStatus?: (step: string, message: string) => void,
+  images: MockupImage[] = []
 ): Promise<AppSpec> {
-  console.log(`[Bedrock] Generating spec for blueprint: ${blueprint}`);
+  console.log(`[Bedrock] Generating spec for blueprint: ${blueprint}${images.length > 0 ? ` with ${images.length} mockups` : ''}`);
+
+  return requestSpec(
+    getPrompts().specSystem(blueprint) + blueprintPrompt(blueprint, 'spec'),
+    buildUserPrompt(prompt, blueprint, images),
+    blueprint,
+    'Writing app specification',
+    credentials,
+    onStatus,
+    images
+  );
+}
 
-  const client = new BedrockRuntimeClient({
-    region: BEDROCK_REGION,
-    credentials: {
-      accessKeyId: credentials.accessKeyId,
-      secretAccessKey: credentials.secretAccessKey,
-      sessionToken: credentials.sessionToken,
-    },
-  });
+/**
+ * Revise an existing app specification from a follow-up request
+ */
+export async function refineSpec(
+  currentSpec: AppSpec,
+  request: string,
+  history: ConversationTurn[],
+  credentials: AssumedCredentials,
+  onStatus?: (step: string, message: string) => void
+): Promise<AppSpec> {
+  console.log(`[Bedrock] Refining spec for: ${currentSpec.name}`);
+
+  return requestSpec(
+    getPrompts().refineSystem(currentSpec.blueprint) + blueprintPrompt(currentSpec.blueprint, 'spec'),
+    buildRefineUserPrompt(currentSpec, request, history),
+    currentSpec.blueprint,
+    'Revising app specification',
+    credentials,
+    onStatus
+  );
+}
 
-  const systemPrompt = buildSystemPrompt(blueprint);
-  const userPrompt = buildUserPrompt(prompt, blueprint);
+/**
+ * Send a spec prompt to the configured model and validate the returned spec.
+ * Validation and unfixable lint errors are sent back to the model for up to
+ * SPEC_REPAIR_ATTEMPTS repairs.
+ */
+async function requestSpec(
+  systemPrompt: string,
+  userPrompt: string,
+  blueprint: string,
+  label: string,
+  credentials: AssumedCredentials,
+  onStatus?: (step: string, message: string) => void,
+  images: MockupImage[] = []
+): Promise<AppSpec> {
+  const maxRepairs = intSetting('SPEC_REPAIR_ATTEMPTS', 2);
+  const messages: ModelMessage[] = [{ role: 'user', content: userPrompt }];
 
   try {
-    // Detect model type and format request accordingly
-    const isClaudeModel = BEDROCK_MODEL_ID.includes('anthropic');
-    const isTitanModel = BEDROCK_MODEL_ID.includes('amazon.titan');
-    const isQwenModel = BEDROCK_MODEL_ID.includes('qwen');
-
-    let requestBody: any;
-
-    if (isClaudeModel) {
-      // Claude API format
-      requestBody = {
-        anthropic_version: 'bedrock-2023-05-31',
-        max_tokens: 4096,
-        temperature: 0.7,
-        system: systemPrompt,
-        messages: [
-          {
-            role: 'user',
-            content: userPrompt,
-          },
-        ],
-      };
-    } else if (isTitanModel) {
-      // Amazon Titan API format
-      requestBody = {
-        inputText: `${systemPrompt}\n\nUser: ${userPrompt}\n\nAssistant:`,
-        textGenerationConfig: {
-          maxTokenCount: 4096,
-          temperature: 0.7,
-          topP: 0.9,
+    for (let attempt = 0; ; attempt++) {
+      const response = await invokeModel(
+        {
+          system: systemPrompt,
+          messages,
+          maxTokens: 4096,
+          temperature: attempt === 0 ? 0.7 : 0.2,
+          tool: SPEC_TOOL,
+          images: withMockups(images),
         },
-      };
-    } else if (isQwenModel) {
-      // Qwen API format - uses OpenAI Chat Completions format
-      requestBody = {
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt,
-          },
-          {
-            role: 'user',
-            content: userPrompt,
-          },
-        ],
-        max_tokens: 4096,
-        temperature: 0.7,
-        top_p: 0.9,
-      };
-    } else {
-      throw new Error(`Unsupported model: ${BEDROCK_MODEL_ID}`);
+        credentials,
+        label
+      );
+
+      console.log(`[Bedrock] Received response from model`);
+
+      let errors: string[];
+      try {
+        const result = validateAppSpec(parseJsonResponse(response), blueprint);
+        // Lint errors the linter can fix itself are left for the caller's lint pass
+        errors = result.success
+          ? lintErrors(lintSpec(result.spec).findings).map(formatFinding)
+          : result.errors;
+        if (result.success && errors.length === 0) {
+          console.log(`[Bedrock] Validated spec: ${result.spec.name}`);
+          return result.spec;
+        }
+      } catch (parseError: any) {
+        errors = [`Response is not a valid JSON object: ${parseError.message}`];
+      }
+
+      console.warn(`[Bedrock] Spec failed validation (attempt ${attempt + 1}): ${errors.join('; ')}`);
+
+      if (attempt >= maxRepairs) {
+        throw new SpecValidationError(
+          errors,
+          `Generated spec failed validation after ${maxRepairs} repair attempts: ${errors.join('; ')}`
+        );
+      }
+
+      if (onStatus) {
+        onStatus(
+          'bedrock-repair',
+          `Spec failed validation with ${errors.length} error(s), asking model to repair (attempt ${attempt + 1}/${maxRepairs}): ${summarizeErrors(errors)}`
+        );
+      }
+
+      messages.push(
+        { role: 'assistant', content: responseContent(response) },
+        { role: 'user', content: buildRepairPrompt(errors) }
+      );
     }
-
-    const command = new InvokeModelCommand({
-      modelId: BEDROCK_MODEL_ID,
-      contentType: 'application/json',
-      accept: 'application/json',
-      body: JSON.stringify(requestBody),
-    });
-
-    const response = await client.send(command);
-    const responseBody = JSON.parse(new TextDecoder().decode(response.body));
-
-    console.log(`[Bedrock] Received response from model`);
-
-    // Extract the spec from the response based on model type
-    let content: string;
-    if (isClaudeModel) {
-      content = responseBody.content[0].text;
-    } else if (isTitanModel) {
-      content = responseBody.results[0].outputText;
-    } else if (isQwenModel) {
-      // Qwen uses OpenAI Chat Completions response format
-      content = responseBody.choices[0].message.content;
-    } else {
-      throw new Error('Unable to parse response');
-    }
-
-    const spec = extractJsonFromResponse(content);
-
-    // Validate and return
-    return validateSpec(spec, blueprint);
   } catch (error: any) {
-    console.error(`[Bedrock] Error: ${error.message}`);
-
-    // Check for access denied errors
+    // Already classified: validation failures, access, exhausted retries and unsupported input
     if (
-      error.name === 'AccessDeniedException' ||
-      error.message?.includes('access') ||
-      error.message?.includes('not enabled')
+      error instanceof SpecValidationError ||
+      error instanceof BedrockAccessError ||
+      error instanceof BedrockServiceError ||
+      error instanceof ModelCapabilityError
     ) {
-      throw new BedrockAccessError(BEDROCK_REGION, BEDROCK_MODEL_ID);
+      throw error;
     }
 
+    console.error(`[Bedrock] Error: ${error.message}`);
     throw new Error(`Failed to generate spec: ${error.message}`);
   }
 }
 
 /**
- * Build system prompt for spec generation
+ * Build the follow-up prompt asking the model to fix a spec that failed validation
+ */
+function buildRepairPrompt(errors: string[]): string {
+  return `The specification you returned failed validation with these errors:
+
+${errors.map((e) => `- ${e}`).join('\n')}
+
+Fix every error and output the COMPLETE corrected JSON specification. Output ONLY the JSON object.`;
+}
+
+function summarizeErrors(errors: string[], limit: number = 3): string {
+  const shown = errors.slice(0, limit).join('; ');
+  return errors.length > limit ? `${shown}; and ${errors.length - limit} more` : shown;
+}
+
+/**
+ * Whether the configured model or one of its fallbacks can read mockup images
+ */
+export function modelAcceptsImages(): boolean {
+  return imageChain(modelChain({ modelId: BEDROCK_MODEL_ID, region: BEDROCK_REGION })).length > 0;
+}
+
+export function imagesUnsupported(): ModelCapabilityError {
+  return new ModelCapabilityError(
+    'images',
+    BEDROCK_MODEL_ID,
+    `${BEDROCK_MODEL_ID} can't read images. Set BEDROCK_MODEL_ID or BEDROCK_FALLBACK_MODELS to a Claude 3 or later model to generate from mockups.`
+  );
+}
+
+function imageChain(chain: ModelChainEntry[]): ModelChainEntry[] {
+  return chain.filter((entry) => getModelAdapter(entry.modelId).capabilities(entry.modelId).images);
+}
+
+/**
+ * Send a request to the configured model, falling back along
+ * BEDROCK_FALLBACK_MODELS when a model is throttled past its retries,
+ * unavailable, or not accessible. Each model in the chain gets the whole
+ * request; a failure that no other model would avoid is thrown as is.
+ * Requests with images skip the models that can't read them.
+ */
+async function invokeModel(
+  request: ModelRequest,
+  credentials: AssumedCredentials,
+  label?: string
+): Promise<ModelResponse> {
+  const fullChain = modelChain({ modelId: BEDROCK_MODEL_ID, region: BEDROCK_REGION });
+  const chain = request.images ? imageChain(fullChain) : fullChain;
+
+  if (chain.length === 0) {
+    throw imagesUnsupported();
+  }
+
+  for (let i = 0; ; i++) {
+    const entry = chain[i];
+
+    try {
+      return await invokeTarget(request, entry, credentials, fullChain.indexOf(entry) > 0, label);
+    } catch (error: any) {
+      const kind = classifyBedrockError(error);
+      const next = chain[i + 1];
+
+      if (!next || !shouldFallBack(kind)) {
+        if (kind === 'access') throw new BedrockAccessError(entry.region, entry.modelId);
+        if (kind === 'other') throw error;
+        throw new BedrockServiceError(kind, entry.region, entry.modelId, `Bedrock ${kind} error for ${entry.modelId} in ${entry.region}: ${error.message}`);
+      }
+
+      console.warn(`[Bedrock] ${entry.modelId} in ${entry.region} failed (${kind}: ${error.message}), falling back to ${next.modelId} in ${next.region}`);
+    }
+  }
+}
+
+/**
+ * Send a request through the adapter registered for one model in the chain.
+ *
+ * Tool calls are only offered to models that support them; everyone else gets
+ * the same request as plain text. Truncated text is continued where it stopped,
+ * and a truncated tool call is retried once with the model's full output budget.
+ * Labelled calls made inside a job are shown in its status while they stream.
  */
-function buildSystemPrompt(blueprint: string): string {
-  return `You are an expert system architect for AWS-based applications. Your task is to generate a detailed application specification based on user requirements.
-
-You must output ONLY valid JSON in the following exact schema:
-
-{
-  "name": "app-name",
-  "blueprint": "${blueprint}",
-  "pages": [
-    {
-      "route": "/",
-      "components": ["Header", "TodoList", "Footer"],
-      "title": "Home"
+async function invokeTarget(
+  request: ModelRequest,
+  entry: ModelChainEntry,
+  credentials: AssumedCredentials,
+  fallback: boolean,
+  label?: string
+): Promise<ModelResponse> {
+  const adapter = getModelAdapter(entry.modelId);
+  const target = { ...entry, credentials };
+  const capabilities = adapter.capabilities(entry.modelId);
+  const outputLimit = adapter.maxOutputTokens(entry.modelId);
+
+  // Every call is billed, including retries and continuations
+  const call = async (req: ModelRequest): Promise<ModelResponse> => {
+    const jobId = usageTracker.scope()?.jobId;
+
+    const { result: response, retries } = await withRetries(
+      async () => {
+        const tracked = jobId && label ? statusTracker.startCall(jobId, label) : undefined;
+        try {
+          return await adapter.invoke(req, target, tracked && ((progress) => tracked.progress(progress.outputTokens)));
+        } finally {
+          tracked?.end();
+        }
+      },
+      (attempt, delayMs, kind, error) => {
+        console.warn(`[Bedrock] ${entry.modelId} ${kind} (${error.message}), retry ${attempt} in ${delayMs}ms`);
+      }
+    );
+
+    await usageTracker.record({ label, modelId: entry.modelId, region: entry.region, fallback, retries }, response.usage);
+    return response;
+  };
+
+  if (request.tool && capabilities.tools) {
+    let response = await call(request);
+
+    if (response.truncated && request.maxTokens < outputLimit) {
+      console.warn(`[Bedrock] ${request.tool.name} call truncated at ${request.maxTokens} tokens, retrying with ${outputLimit}`);
+      response = await call({ ...request, maxTokens: outputLimit });
     }
-  ],
-  "api": [
-    {
-      "path": "/todos",
-      "method": "GET",
-      "handler": "listTodos",
-      "description": "List all todos",
-      "requiresAuth": false
+
+    if (response.truncated || response.toolInput === undefined) {
+      throw new Error(
+        `Model did not complete the ${request.tool.name} tool call (stop reason: ${response.stopReason})`
+      );
     }
-  ],
-  "dataModel": [
-    {
-      "table": "Todos",
-      "partitionKey": "id",
-      "sortKey": null,
-      "attributes": [
-        { "name": "id", "type": "string", "required": true },
-        { "name": "title", "type": "string", "required": true },
-        { "name": "completed", "type": "boolean", "required": true },
-        { "name": "createdAt", "type": "string", "required": true }
-      ],
-      "secondaryIndexes": []
+
+    return response;
+  }
+
+  const textRequest: ModelRequest = { ...request, tool: undefined };
+  let response = await call(textRequest);
+  let text = response.text;
+
+  for (let continuation = 1; response.truncated; continuation++) {
+    if (continuation > MAX_CONTINUATIONS) {
+      throw new Error(`Model response still truncated after ${MAX_CONTINUATIONS} continuations`);
     }
-  ],
-  "auth": false,
-  "envVars": [
-    {
-      "name": "API_KEY",
-      "description": "External API key for third-party service",
-      "required": false
+
+    console.warn(`[Bedrock] Response truncated at ${text.length} characters, continuing (${continuation}/${MAX_CONTINUATIONS})`);
+
+    // Trailing whitespace is not allowed at the end of a prefilled assistant turn
+    const partial = text.trimEnd();
+    const messages: ModelMessage[] = [...request.messages, { role: 'assistant', content: partial }];
+    if (!capabilities.prefill) {
+      messages.push({ role: 'user', content: CONTINUE_PROMPT });
     }
-  ],
-  "customDomain": false
+
+    response = await call({ ...textRequest, messages });
+    text = partial + response.text;
+  }
+
+  return { ...response, text };
 }
 
-Rules:
-1. Output ONLY the JSON object, no markdown, no explanations
-2. Keep it simple and practical
-3. For serverless: use DynamoDB tables, Lambda handlers, API Gateway endpoints
-4. For containers: use PostgreSQL models, Express routes, containerized services
-5. Include only necessary endpoints and data models
-6. Set auth:true only if authentication is explicitly required
-7. API paths should start with / (e.g., /todos, /users) without /api prefix
-8. Be concise but complete`;
+/**
+ * Requests only carry images when there are some, so text-only models are never ruled out
+ */
+function withMockups(images: MockupImage[]): MockupImage[] | undefined {
+  return images.length > 0 ? images : undefined;
+}
+
+/**
+ * Structured output comes from the tool call when there is one, else from the text
+ */
+function parseJsonResponse(response: ModelResponse): any {
+  return response.toolInput !== undefined
+    ? response.toolInput
+    : extractJsonFromResponse(response.text);
+}
+
+/**
+ * The model's answer as a string, for replaying it back in a follow-up turn
+ */
+function responseContent(response: ModelResponse): string {
+  return response.toolInput !== undefined
+    ? JSON.stringify(response.toolInput)
+    : response.text;
 }
 
 /**
  * Build user prompt
  */
-function buildUserPrompt(prompt: string, blueprint: string): string {
+function buildUserPrompt(prompt: string, blueprint: string, images: MockupImage[]): string {
   return `Generate an application specification for the following requirements using the ${blueprint} blueprint:
 
-${prompt}
+${prompt}${images.length > 0 ? `\n\n${MOCKUP_NOTE}` : ''}
 
 Output the complete JSON specification following the schema exactly. Include all necessary pages, API endpoints, and data models.`;
 }
 
+/**
+ * Build user prompt for revising an existing spec, with earlier requests for context
+ */
+function buildRefineUserPrompt(currentSpec: AppSpec, request: string, history: ConversationTurn[]): string {
+  // Generated code is re-created from the revised spec, so keep it out of the context
+  const spec = { ...currentSpec, generatedCode: undefined };
+
+  const earlier = history.length === 0 ? '' : `Earlier requests for this application, oldest first:
+
+${history.map((turn) => `- "${turn.prompt}" (${turn.response})`).join('\n')}
+
+`;
+
+  return `${earlier}Current application specification:
+
+${JSON.stringify(spec, null, 2)}
+
+Requested change:
+
+${request}
+
+Output the complete revised JSON specification following the schema exactly.`;
+}
+
 /**
  * Extract JSON from Claude's response
  */
@@ -228,292 +427,426 @@ function extractJsonFromResponse(content: string): any {
 }
 
 /**
- * Validate spec structure
+ * Test Bedrock access
  */
-function validateSpec(spec: any, blueprint: string): AppSpec {
-  if (!spec.name || typeof spec.name !== 'string') {
-    throw new Error('Spec must include a valid name');
-  }
+export async function testBedrockAccess(
+  credentials: AssumedCredentials
+): Promise<{ ok: boolean; error?: string }> {
+  try {
+    await invokeModel(
+      {
+        messages: [{ role: 'user', content: 'Hello' }],
+        maxTokens: 10,
+      },
+      credentials
+    );
+    return { ok: true };
+  } catch (error: any) {
+    if (error instanceof BedrockAccessError) {
+      const isTitanModel = error.modelId.includes('amazon.titan');
+      return {
+        ok: false,
+        error: isTitanModel
+          ? `Access denied to Bedrock model in ${error.region}. Verify IAM permissions include bedrock:InvokeModel and bedrock:InvokeModelWithResponseStream.`
+          : `Access denied to Bedrock model in ${error.region}. For Anthropic models, first-time users may need to submit use case details. Go to AWS Console → Bedrock → Model catalog, select ${error.modelId}, and try it in the playground to complete setup.`,
+      };
+    }
 
-  if (spec.blueprint !== blueprint) {
-    spec.blueprint = blueprint;
+    return { ok: false, error: error.message };
   }
+}
 
-  if (!Array.isArray(spec.pages)) {
-    spec.pages = [];
-  }
+/**
+ * A single source file in the code generation plan
+ */
+export interface CodeFilePlan {
+  kind: 'lib' | 'component' | 'page';
+  /** Lib file name (e.g. "types"), component name, or page route */
+  name: string;
+  description: string;
+  /** Names of lib files and components this file imports */
+  dependsOn: string[];
+}
 
-  if (!Array.isArray(spec.api)) {
-    spec.api = [];
-  }
+/**
+ * Ask the model which files the web app needs and how they depend on each other
+ */
+export async function planCodeFiles(
+  spec: AppSpec,
+  credentials: AssumedCredentials,
+  images: MockupImage[] = []
+): Promise<CodeFilePlan[]> {
+  console.log(`[Bedrock] Planning code files for: ${spec.name}`);
 
-  if (!Array.isArray(spec.dataModel)) {
-    spec.dataModel = [];
-  }
+  try {
+    const response = await invokeModel(
+      {
+        system: getPrompts().planSystem() + blueprintPrompt(spec.blueprint, 'code'),
+        messages: [{ role: 'user', content: buildPlanUserPrompt(spec, images) }],
+        maxTokens: 2048,
+        temperature: 0.2,
+        tool: PLAN_TOOL,
+        images: withMockups(images),
+      },
+      credentials,
+      'Planning web app files'
+    );
+
+    const result = codePlanSchema.safeParse(parseJsonResponse(response));
+    if (!result.success) {
+      throw new Error(`Invalid code plan: ${result.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join('; ')}`);
+    }
 
-  if (!Array.isArray(spec.envVars)) {
-    spec.envVars = [];
+    console.log(`[Bedrock] Planned ${result.data.files.length} files`);
+    return result.data.files;
+  } catch (error: any) {
+    console.error(`[Bedrock] Error planning code files: ${error.message}`);
+    throw new Error(`Failed to plan code files: ${error.message}`);
   }
+}
 
-  spec.auth = spec.auth === true;
-  spec.customDomain = spec.customDomain === true;
+/**
+ * Generate one source file, given the already-generated files it imports.
+ * Mockups are only shown for pages and components.
+ */
+export async function generateCodeFile(
+  spec: AppSpec,
+  file: CodeFilePlan,
+  context: Record<string, string>,
+  credentials: AssumedCredentials,
+  images: MockupImage[] = []
+): Promise<string> {
+  const mockups = file.kind === 'lib' ? [] : images;
+  console.log(`[Bedrock] Generating ${file.kind}: ${file.name}`);
 
-  // Validate each page
-  spec.pages = spec.pages.filter(
-    (page: any) =>
-      page.route &&
-      typeof page.route === 'string' &&
-      Array.isArray(page.components)
-  );
+  try {
+    const response = await invokeModel(
+      {
+        system: getPrompts().componentSystem() + blueprintPrompt(spec.blueprint, 'code'),
+        messages: [{ role: 'user', content: buildFileUserPrompt(spec, file, context, mockups) }],
+        maxTokens: 4096,
+        temperature: 0.3,
+        tool: FILE_TOOL,
+        images: withMockups(mockups),
+      },
+      credentials,
+      `Writing ${codeFilePath(file)}`
+    );
 
-  // Validate each API endpoint
-  spec.api = spec.api.filter(
-    (endpoint: any) =>
-      endpoint.path &&
-      endpoint.method &&
-      endpoint.handler &&
-      ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'].includes(endpoint.method)
-  );
+    const code = response.toolInput !== undefined
+      ? (response.toolInput as { code: string }).code
+      : extractCodeFromResponse(response.text);
 
-  // Validate data models
-  spec.dataModel = spec.dataModel.filter(
-    (model: any) =>
-      model.table &&
-      model.partitionKey &&
-      Array.isArray(model.attributes)
-  );
+    if (!code || !code.trim()) {
+      throw new Error('Model returned an empty file');
+    }
 
-  console.log(`[Bedrock] Validated spec: ${spec.name}`);
-  return spec as AppSpec;
+    return code;
+  } catch (error: any) {
+    console.error(`[Bedrock] Error generating ${file.kind} ${file.name}: ${error.message}`);
+    throw new Error(`Failed to generate ${file.kind} ${file.name}: ${error.message}`);
+  }
 }
 
 /**
- * Test Bedrock access
+ * Rewrite a generated file so it compiles, given the compiler errors reported for it
  */
-export async function testBedrockAccess(
+export async function fixCodeFile(
+  spec: AppSpec,
+  filePath: string,
+  code: string,
+  errors: string[],
+  context: Record<string, string>,
   credentials: AssumedCredentials
-): Promise<{ ok: boolean; error?: string }> {
+): Promise<string> {
+  console.log(`[Bedrock] Fixing ${errors.length} errors in ${filePath}`);
+
   try {
-    const client = new BedrockRuntimeClient({
-      region: BEDROCK_REGION,
-      credentials: {
-        accessKeyId: credentials.accessKeyId,
-        secretAccessKey: credentials.secretAccessKey,
-        sessionToken: credentials.sessionToken,
+    const response = await invokeModel(
+      {
+        system: getPrompts().componentSystem() + blueprintPrompt(spec.blueprint, 'code'),
+        messages: [{ role: 'user', content: buildFixUserPrompt(spec, filePath, code, errors, context) }],
+        maxTokens: 4096,
+        temperature: 0.1,
+        tool: FILE_TOOL,
       },
-    });
-
-    const isClaudeModel = BEDROCK_MODEL_ID.includes('anthropic');
-    const isTitanModel = BEDROCK_MODEL_ID.includes('amazon.titan');
-    const isQwenModel = BEDROCK_MODEL_ID.includes('qwen');
-
-    let requestBody: any;
-
-    if (isClaudeModel) {
-      requestBody = {
-        anthropic_version: 'bedrock-2023-05-31',
-        max_tokens: 10,
-        messages: [
-          {
-            role: 'user',
-            content: 'Hello',
-          },
-        ],
-      };
-    } else if (isTitanModel) {
-      requestBody = {
-        inputText: 'Hello',
-        textGenerationConfig: {
-          maxTokenCount: 10,
-          temperature: 0.7,
-        },
-      };
-    } else if (isQwenModel) {
-      // Qwen uses OpenAI Chat Completions format
-      requestBody = {
-        messages: [
-          {
-            role: 'user',
-            content: 'Hello',
-          },
-        ],
-        max_tokens: 10,
-        temperature: 0.7,
-        top_p: 0.9,
-      };
-    } else {
-      return { ok: false, error: `Unsupported model: ${BEDROCK_MODEL_ID}` };
-    }
+      credentials,
+      `Fixing ${filePath}`
+    );
 
-    const command = new InvokeModelCommand({
-      modelId: BEDROCK_MODEL_ID,
-      contentType: 'application/json',
-      accept: 'application/json',
-      body: JSON.stringify(requestBody),
-    });
+    const fixed = response.toolInput !== undefined
+      ? (response.toolInput as { code: string }).code
+      : extractCodeFromResponse(response.text);
 
-    await client.send(command);
-    return { ok: true };
-  } catch (error: any) {
-    if (
-      error.name === 'AccessDeniedException' ||
-      error.message?.includes('access') ||
-      error.message?.includes('not enabled')
-    ) {
-      const isTitanModel = BEDROCK_MODEL_ID.includes('amazon.titan');
-      return {
-        ok: false,
-        error: isTitanModel
-          ? `Access denied to Bedrock model in ${BEDROCK_REGION}. Verify IAM permissions include bedrock:InvokeModel.`
-          : `Access denied to Bedrock model in ${BEDROCK_REGION}. For Anthropic models, first-time users may need to submit use case details. Go to AWS Console → Bedrock → Model catalog, select ${BEDROCK_MODEL_ID}, and try it in the playground to complete setup.`,
-      };
+    if (!fixed || !fixed.trim()) {
+      throw new Error('Model returned an empty file');
     }
 
-    return { ok: false, error: error.message };
+    return fixed;
+  } catch (error: any) {
+    console.error(`[Bedrock] Error fixing ${filePath}: ${error.message}`);
+    throw new Error(`Failed to fix ${filePath}: ${error.message}`);
   }
 }
 
 /**
- * Generate functional React component code using Bedrock
+ * Write a Lambda handler for an endpoint the CRUD templates can't express
  */
-export async function generateComponentCode(
+export async function generateHandlerFile(
   spec: AppSpec,
+  binding: EndpointBinding,
   credentials: AssumedCredentials
-): Promise<GeneratedCode> {
-  console.log(`[Bedrock] Generating component code for: ${spec.name}`);
+): Promise<string> {
+  const { endpoint } = binding;
+  console.log(`[Bedrock] Generating handler ${endpoint.handler} (${endpoint.method} ${endpoint.path})`);
 
-  const client = new BedrockRuntimeClient({
-    region: BEDROCK_REGION,
-    credentials: {
-      accessKeyId: credentials.accessKeyId,
-      secretAccessKey: credentials.secretAccessKey,
-      sessionToken: credentials.sessionToken,
-    },
-  });
+  try {
+    const response = await invokeModel(
+      {
+        system: getPrompts().handlerSystem() + blueprintPrompt(spec.blueprint, 'handlers'),
+        messages: [{ role: 'user', content: buildHandlerUserPrompt(spec, binding) }],
+        maxTokens: 4096,
+        temperature: 0.3,
+        tool: FILE_TOOL,
+      },
+      credentials,
+      `Writing api/src/handlers/${endpoint.handler}.ts`
+    );
 
-  const systemPrompt = buildComponentSystemPrompt();
-  const userPrompt = buildComponentUserPrompt(spec);
+    const code = response.toolInput !== undefined
+      ? (response.toolInput as { code: string }).code
+      : extractCodeFromResponse(response.text);
+
+    if (!code || !code.trim()) {
+      throw new Error('Model returned an empty file');
+    }
+
+    return code;
+  } catch (error: any) {
+    console.error(`[Bedrock] Error generating handler ${endpoint.handler}: ${error.message}`);
+    throw new Error(`Failed to generate handler ${endpoint.handler}: ${error.message}`);
+  }
+}
+
+/**
+ * Pull file content out of a plain-text response, with or without a code fence
+ */
+function extractCodeFromResponse(content: string): string {
+  const fenced = content.match(/```(?:tsx|ts|typescript|javascript|jsx)?\s*\n([\s\S]*?)```/);
+  return (fenced ? fenced[1] : content).trim() + '\n';
+}
+
+/**
+ * Write a render test for a generated component, given its source and the lib files it uses
+ */
+export async function generateComponentTest(
+  spec: AppSpec,
+  name: string,
+  source: string,
+  context: Record<string, string>,
+  credentials: AssumedCredentials
+): Promise<string> {
+  console.log(`[Bedrock] Generating render test for ${name}`);
 
   try {
-    const isClaudeModel = BEDROCK_MODEL_ID.includes('anthropic');
-    const isTitanModel = BEDROCK_MODEL_ID.includes('amazon.titan');
-    const isQwenModel = BEDROCK_MODEL_ID.includes('qwen');
+    const response = await invokeModel(
+      {
+        system: getPrompts().componentTestSystem() + blueprintPrompt(spec.blueprint, 'code'),
+        messages: [{ role: 'user', content: buildComponentTestUserPrompt(spec, name, source, context) }],
+        maxTokens: 4096,
+        temperature: 0.2,
+        tool: FILE_TOOL,
+      },
+      credentials,
+      `Writing ${componentTestPath(name)}`
+    );
 
-    let requestBody: any;
+    const code = response.toolInput !== undefined
+      ? (response.toolInput as { code: string }).code
+      : extractCodeFromResponse(response.text);
 
-    if (isClaudeModel) {
-      requestBody = {
-        anthropic_version: 'bedrock-2023-05-31',
-        max_tokens: 8000,
-        temperature: 0.3,
-        system: systemPrompt,
-        messages: [{ role: 'user', content: userPrompt }],
-      };
-    } else if (isTitanModel) {
-      requestBody = {
-        inputText: `${systemPrompt}\n\nUser: ${userPrompt}\n\nAssistant:`,
-        textGenerationConfig: {
-          maxTokenCount: 8000,
-          temperature: 0.3,
-          topP: 0.9,
-        },
-      };
-    } else if (isQwenModel) {
-      // Qwen API format - uses OpenAI Chat Completions format
-      requestBody = {
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt,
-          },
-          {
-            role: 'user',
-            content: userPrompt,
-          },
-        ],
-        max_tokens: 8000,
-        temperature: 0.3,
-        top_p: 0.9,
-      };
-    } else {
-      throw new Error(`Unsupported model: ${BEDROCK_MODEL_ID}`);
+    if (!code || !code.trim()) {
+      throw new Error('Model returned an empty file');
     }
 
-    const command = new InvokeModelCommand({
-      modelId: BEDROCK_MODEL_ID,
-      contentType: 'application/json',
-      accept: 'application/json',
-      body: JSON.stringify(requestBody),
-    });
-
-    const response = await client.send(command);
-    const responseBody = JSON.parse(new TextDecoder().decode(response.body));
-
-    let content: string;
-    if (isClaudeModel) {
-      content = responseBody.content[0].text;
-    } else if (isTitanModel) {
-      content = responseBody.results[0].outputText;
-    } else if (isQwenModel) {
-      // Qwen uses OpenAI Chat Completions response format
-      content = responseBody.choices[0].message.content;
-    } else {
-      throw new Error('Unable to parse response');
+    return code;
+  } catch (error: any) {
+    console.error(`[Bedrock] Error generating test for ${name}: ${error.message}`);
+    throw new Error(`Failed to generate test for ${name}: ${error.message}`);
+  }
+}
+
+/**
+ * Repo-relative path of a component's render test
+ */
+export function componentTestPath(name: string): string {
+  return `web/test/components/${name}.test.tsx`;
+}
+
+/**
+ * Repo-relative path of a planned file
+ */
+export function codeFilePath(file: Pick<CodeFilePlan, 'kind' | 'name'>): string {
+  if (file.kind === 'lib') {
+    return `web/src/lib/${file.name.replace(/\.ts$/, '')}.ts`;
+  }
+  if (file.kind === 'component') {
+    return `web/src/components/${file.name}.tsx`;
+  }
+  return `web/src/pages/${file.name === '/' ? 'index' : file.name.replace(/^\//, '')}.tsx`;
+}
+
+function buildPlanUserPrompt(spec: AppSpec, images: MockupImage[]): string {
+  return [
+    'Plan the web app source files for this application:',
+    '',
+    describeSpec(spec),
+    '',
+    ...(images.length > 0 ? [MOCKUP_NOTE, ''] : []),
+    'Output the plan with one entry per file.',
+  ].join('\n');
+}
+
+function buildFileUserPrompt(
+  spec: AppSpec,
+  file: CodeFilePlan,
+  context: Record<string, string>,
+  images: MockupImage[]
+): string {
+  const kindLabel = file.kind === 'page'
+    ? `Next.js page for route ${file.name} (default export)`
+    : file.kind === 'component'
+      ? `React component ${file.name} (named export ${file.name})`
+      : `library module lib/${file.name}.ts`;
+
+  const sections = [
+    'Application this file belongs to:',
+    '',
+    describeSpec(spec),
+    '',
+    `**File to write:** ${codeFilePath(file)} - ${kindLabel}`,
+    `**Purpose:** ${file.description}`,
+  ];
+
+  const contextFiles = Object.entries(context);
+  if (contextFiles.length > 0) {
+    sections.push('', 'Files already written that this file may import from (do not redefine what they export):');
+    for (const [filePath, code] of contextFiles) {
+      sections.push('', `--- ${filePath} ---`, code);
     }
+  }
 
-    const generatedCode = extractJsonFromResponse(content);
-    console.log(`[Bedrock] Generated code for ${Object.keys(generatedCode.pages || {}).length} pages and ${Object.keys(generatedCode.components || {}).length} components`);
+  if (images.length > 0) sections.push('', MOCKUP_NOTE);
+  sections.push('', 'Output the complete file content.');
+  return sections.join('\n');
+}
 
-    return generatedCode as GeneratedCode;
-  } catch (error: any) {
-    console.error(`[Bedrock] Error generating components: ${error.message}`);
-    throw new Error(`Failed to generate components: ${error.message}`);
+function buildComponentTestUserPrompt(
+  spec: AppSpec,
+  name: string,
+  source: string,
+  context: Record<string, string>
+): string {
+  const sections = [
+    'Application the component belongs to:',
+    '',
+    describeSpec(spec),
+    '',
+    `**Test file to write:** ${componentTestPath(name)}`,
+    '',
+    `--- ${codeFilePath({ kind: 'component', name })} ---`,
+    source,
+  ];
+
+  for (const [filePath, code] of Object.entries(context)) {
+    sections.push('', `--- ${filePath} ---`, code);
   }
+
+  sections.push('', 'Output the complete test file content.');
+  return sections.join('\n');
 }
 
-function buildComponentSystemPrompt(): string {
-  return `You are an expert React and TypeScript developer. Generate fully functional React components with proper TypeScript types, API integration, and modern best practices.
+function buildHandlerUserPrompt(spec: AppSpec, binding: EndpointBinding): string {
+  const { endpoint, table } = binding;
 
-Output ONLY valid JSON in this exact format:
-{
-  "pages": {
-    "/": "import React from 'react';\\n\\nexport default function Home() {\\n  return <div>Home</div>;\\n}"
-  },
-  "components": {
-    "TodoList": "import React from 'react';\\n\\nexport function TodoList() {\\n  return <div>Todo List</div>;\\n}"
-  },
-  "lib": {
-    "api": "let apiUrl: string | null = null;\\\\n\\\\nasync function getApiUrl() {\\\\n  if (apiUrl) return apiUrl;\\\\n  try {\\\\n    const res = await fetch('/config.json');\\\\n    const config = await res.json();\\\\n    apiUrl = config.apiUrl.replace(/\\\\\\\\/+$/, '');\\\\n  } catch {\\\\n    apiUrl = (process.env.NEXT_PUBLIC_API_URL || '/api').replace(/\\\\\\\\/+$/, '');\\\\n  }\\\\n  return apiUrl;\\\\n}\\\\n\\\\nexport async function getTodos() {\\\\n  const base = await getApiUrl();\\\\n  const res = await fetch(base + '/todos');\\\\n  return res.json();\\\\n}",
-    "types": "export interface Todo { id: string; title: string; }"
+  const sections = [
+    'Application this handler belongs to:',
+    '',
+    describeSpec(spec),
+    '',
+    `**Handler to write:** api/src/handlers/${endpoint.handler}.ts`,
+    `**Endpoint:** ${endpoint.method} ${endpoint.path}${endpoint.description ? ` - ${endpoint.description}` : ''}`,
+    `**Path parameters:** ${binding.pathParams.length > 0 ? binding.pathParams.join(', ') : 'none'}`,
+  ];
+
+  if (table) {
+    sections.push(
+      '',
+      `**Table (process.env.TABLE_NAME):** ${table.table}`,
+      `- partition key: ${table.partitionKey}${table.sortKey ? `, sort key: ${table.sortKey}` : ''}`,
+      `- attributes: ${table.attributes.map((a) => `${a.name} (${a.type}${a.required ? ', required' : ''})`).join(', ')}`,
+      ...(table.secondaryIndexes || []).map((index) => `- index ${index.name}: ${index.partitionKey}${index.sortKey ? ` / ${index.sortKey}` : ''}`)
+    );
+  } else {
+    sections.push('', 'This endpoint has no table; do not access DynamoDB.');
   }
+
+  if (spec.auth && endpoint.requiresAuth) {
+    sections.push(
+      '',
+      '**Auth:** requires sign-in. The Cognito authorizer has verified the caller; their ID token claims are in event.requestContext.authorizer.claims (sub is the user ID, email). Return 401 when they are missing.'
+    );
+    if (binding.ownerAttribute) {
+      sections.push(
+        `Items belong to the user in ${binding.ownerAttribute}: set it to the caller's sub on create, never from the request, and only read, change or delete items whose ${binding.ownerAttribute} is the caller's sub.`
+      );
+    }
+  }
+
+  return sections.join('\n');
 }
 
-CRITICAL Requirements:
-1. All code must be valid TypeScript with proper types
-2. ALWAYS define TypeScript types/interfaces in lib/types.ts and import them where needed
-3. NEVER import types from components - define all shared types in lib/types.ts
-4. Each component file must be self-contained with all necessary exports
-5. Use React hooks (useState, useEffect, etc.)
-6. Include API calls using fetch() with error handling
-7. Add proper loading and error states
-8. Use inline styles with Tailwind-like utility classes
-9. Make components interactive and functional
-10. Include form validation where appropriate
-11. Escape all special characters in JSON strings (\\n for newlines, \\" for quotes, etc.)
-12. Output ONLY the JSON object, no markdown, no explanations
-13. Pages should be Next.js page components (default export)
-14. Components should be named exports
-15. lib/api.ts should import types from lib/types.ts, NOT from components`;
-}
-
-function buildComponentUserPrompt(spec: AppSpec): string {
+function buildFixUserPrompt(
+  spec: AppSpec,
+  filePath: string,
+  code: string,
+  errors: string[],
+  context: Record<string, string>
+): string {
+  const sections = [
+    'Application this file belongs to:',
+    '',
+    describeSpec(spec),
+    '',
+    `**File that fails to compile:** ${filePath}`,
+    '',
+    '**Compiler errors:**',
+    ...errors.map((e) => `- ${e}`),
+    '',
+    '**Current content:**',
+    code,
+  ];
+
+  const contextFiles = Object.entries(context);
+  if (contextFiles.length > 0) {
+    sections.push('', 'Files this file may import from (their exports are correct, do not change them):');
+    for (const [contextPath, contextCode] of contextFiles) {
+      sections.push('', `--- ${contextPath} ---`, contextCode);
+    }
+  }
+
+  sections.push('', 'Fix every error with the smallest change that keeps the file functional. Output the complete corrected file content.');
+  return sections.join('\n');
+}
+
+function describeSpec(spec: AppSpec): string {
   const pages = spec.pages.map(p => '- ' + p.route + ': ' + (p.title || 'Page') + ' (components: ' + p.components.join(', ') + ')').join('\n');
-  const endpoints = spec.api.map(e => '- ' + e.method + ' ' + e.path + ': ' + (e.description || '')).join('\n');
+  const endpoints = resolveEndpointBindings(spec)
+    .map(b => '- ' + b.endpoint.method + ' ' + b.endpoint.path + ': ' + (b.endpoint.description || '') + ' -> returns ' + describeResponse(b))
+    .join('\n');
   const models = spec.dataModel.map(m => '- ' + m.table + ': ' + m.attributes.map(a => a.name + ' (' + a.type + ')').join(', ')).join('\n');
 
-  const prompt = [
-    'Generate fully functional React components for this application:',
-    '',
+  return [
     '**App Name:** ' + spec.name,
     '',
     '**Pages:**',
@@ -524,17 +857,5 @@ function buildComponentUserPrompt(spec: AppSpec): string {
     '',
     '**Data Model:**',
     models,
-    '',
-    'Generate:',
-    '1. lib/types.ts - TypeScript interfaces for data models, API types, and component props',
-    '2. lib/api.ts - API utility that loads config from /config.json at runtime and provides typed helper functions',
-    '3. components - Reusable React components with forms, lists, and full interactivity',
-    '4. pages - Next.js page components that fetch data and display it with loading and error states',
-    '',
-    'CRITICAL: Define ALL TypeScript types in lib/types.ts and import them. Load API URL from /config.json at runtime, not from environment variables.',
-    '',
-    'Make the app beautiful with modern inline styles and responsive design.'
   ].join('\n');
-
-  return prompt;
 }
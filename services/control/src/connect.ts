@@ -25,8 +25,7 @@ export async function getTenantConfig(): Promise<{
     await fs.mkdir(DATA_DIR, { recursive: true });
 
     if (await exists(TENANT_FILE)) {
-      const data = await readJson(TENANT_FILE);
-      return data;
+      return await readJson(TENANT_FILE);
     }
 
     // Generate new tenant ID and external ID
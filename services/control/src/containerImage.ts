@@ -0,0 +1,102 @@
+import { execCommand } from './util/exec';
+
+const BUILD_TIMEOUT = 900000; // 15 minutes
+const PUSH_TIMEOUT = 600000; // 10 minutes
+const ECR_REPOSITORY = /^\d{12}\.dkr\.ecr\.[a-z0-9-]+\.amazonaws\.com(\.cn)?\//;
+
+export interface PublishImageOptions {
+  /** Build context holding the Dockerfile */
+  contextPath: string;
+  /** Repository the stack created, e.g. 123456789012.dkr.ecr.us-east-1.amazonaws.com/todo-app-dev */
+  repositoryUri: string;
+  /** Immutable tag, the app repo's git commit */
+  tag: string;
+  region: string;
+  /** AWS credentials and region for the ECR login */
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * IMAGE_REGISTRY, a registry that stands in for ECR, like a local registry:2
+ * container at localhost:5000. ECS cannot pull from it, so images pushed
+ * there only exercise the build and push.
+ */
+export function standInRegistry(): string | undefined {
+  return (process.env.IMAGE_REGISTRY || '').replace(/\/+$/, '') || undefined;
+}
+
+/**
+ * Where an image is pushed: the stack's repository, or the same repository
+ * name under the stand-in registry
+ */
+export function imageUri(repositoryUri: string, tag: string): string {
+  const standIn = standInRegistry();
+  if (!standIn) return `${repositoryUri}:${tag}`;
+
+  const repositoryName = repositoryUri.split('/').slice(1).join('/') || repositoryUri;
+  return `${standIn}/${repositoryName}:${tag}`;
+}
+
+/**
+ * Build the image and push it under its tag. Tags are never overwritten:
+ * an ECR image that already has the tag is left as it is, so redeploying the
+ * same commit skips the build.
+ */
+export async function publishImage(
+  options: PublishImageOptions,
+  onStatus?: (step: string, message: string) => void
+): Promise<string> {
+  const uri = imageUri(options.repositoryUri, options.tag);
+  const repository = uri.slice(0, uri.lastIndexOf(':'));
+  const registry = repository.split('/')[0];
+  const ecr = ECR_REPOSITORY.test(uri);
+
+  if (ecr) {
+    if (await ecrImageExists(repository, options.tag, options.region, options.env)) {
+      console.log(`[Image] ${uri} is already pushed, skipping build`);
+      return uri;
+    }
+    await ecrLogin(registry, options.region, options.env);
+  }
+
+  if (onStatus) onStatus('deploy-image-build', `Building image ${uri}`);
+  console.log(`[Image] Building ${uri} from ${options.contextPath}`);
+  // Fargate tasks run on x86_64 unless the task definition says otherwise
+  const build = await execCommand('docker', ['build', '--platform', 'linux/amd64', '--tag', uri, options.contextPath], {
+    env: options.env,
+    timeout: BUILD_TIMEOUT,
+  });
+  if (build.exitCode !== 0) {
+    throw new Error(`Image build failed: ${build.stderr}`);
+  }
+
+  if (onStatus) onStatus('deploy-image-push', `Pushing image to ${registry}`);
+  const push = await execCommand('docker', ['push', uri], { env: options.env, timeout: PUSH_TIMEOUT });
+  if (push.exitCode !== 0) {
+    throw new Error(`Image push failed: ${push.stderr}`);
+  }
+
+  console.log(`[Image] Pushed ${uri}`);
+  return uri;
+}
+
+async function ecrImageExists(repository: string, tag: string, region: string, env?: NodeJS.ProcessEnv): Promise<boolean> {
+  const repositoryName = repository.split('/').slice(1).join('/');
+  const result = await execCommand(
+    'aws',
+    ['ecr', 'describe-images', '--repository-name', repositoryName, '--image-ids', `imageTag=${tag}`, '--region', region],
+    { env, timeout: 60000 }
+  );
+  return result.exitCode === 0;
+}
+
+async function ecrLogin(registry: string, region: string, env?: NodeJS.ProcessEnv): Promise<void> {
+  const result = await execCommand(
+    `aws ecr get-login-password --region ${region} | docker login --username AWS --password-stdin ${registry}`,
+    [],
+    { env, timeout: 60000 }
+  );
+  if (result.exitCode !== 0) {
+    throw new Error(`ECR login to ${registry} failed: ${result.stderr}`);
+  }
+}
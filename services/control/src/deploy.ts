@@ -1,18 +1,21 @@
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import * as crypto from 'crypto';
-import { Environment, DeploymentResult, StackOutputs } from '@aws-vibe/shared';
-import { assumeRole, createAssumedClients, getStackOutputs } from './util/aws';
+import { AppManifest, Environment, DeploymentResult, StackOutputs } from '@aws-vibe/shared';
+import { assumeRole, AssumedCredentials, createAssumedClients, getStackOutputs, stackHasResource } from './util/aws';
 import { execCdk, execCommand } from './util/exec';
-import { readJson, writeJson, exists } from './util/fsx';
+import { readJson, writeJson, exists, headCommit } from './util/fsx';
+import { getBlueprint } from './scaffold/blueprintRegistry';
+import { publishImage, standInRegistry } from './containerImage';
 import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
+import { CloudFormationClient } from '@aws-sdk/client-cloudformation';
 
 const WORK_DIR = '/work';
 
 /**
  * Check if npm install is needed by comparing package.json hash
  */
-async function needsNpmInstall(projectPath: string): Promise<boolean> {
+export async function needsNpmInstall(projectPath: string): Promise<boolean> {
   const packageJsonPath = path.join(projectPath, 'package.json');
   const nodeModulesPath = path.join(projectPath, 'node_modules');
   const hashFile = path.join(projectPath, '.package-hash');
@@ -161,10 +164,50 @@ export async function deployCdkStack(
     if (onStatus) onStatus('deploy-bootstrap', 'Bootstrapping AWS CDK (first time only)');
     await bootstrapCdk(infraPath, cdkEnv);
 
+    const manifest: AppManifest = await readJson(path.join(repoPath, '.vibe', 'manifest.json'));
+    const blueprint = getBlueprint(manifest.blueprint);
+
+    // Blueprints that run a container image deploy in two phases: the image is
+    // pushed to the stack's registry, then the stack is deployed pinned to it.
+    // An image pushed to a stand-in registry was never pushed to ECR, so the
+    // stack is deployed without a tag and runs no service; a stack that
+    // already runs one is refused rather than having its service deleted.
+    const contextArgs: string[] = [];
+    let image: string | undefined;
+    if (blueprint.image) {
+      const standIn = standInRegistry();
+      if (standIn && (await stackHasResource(clients.cloudformation, stackName, 'AWS::ECS::Service'))) {
+        throw new Error(
+          `IMAGE_REGISTRY is set to ${standIn}, but ${stackName} already runs a service: deploying it without an ` +
+            'ECR image would delete the service and its migration task. Unset IMAGE_REGISTRY to redeploy this app.'
+        );
+      }
+
+      const imageTag = await headCommit(repoPath);
+      const repositoryUri = await imageRepositoryUri(
+        infraPath,
+        stackName,
+        blueprint.image.repositoryOutput,
+        clients.cloudformation,
+        cdkEnv,
+        onStatus
+      );
+      const pushed = await publishImage(
+        { contextPath: path.join(repoPath, blueprint.image.context), repositoryUri, tag: imageTag, region, env: cdkEnv },
+        onStatus
+      );
+      if (standIn) {
+        console.log(`[Deploy] ${pushed} is in the stand-in registry; deploying ${stackName} without a service`);
+      } else {
+        image = pushed;
+        contextArgs.push('--context', `imageTag=${imageTag}`);
+      }
+    }
+
     // Synth (must be after bootstrap, both use same cdk.out directory)
     if (onStatus) onStatus('deploy-synth', 'Synthesizing CloudFormation template');
     console.log(`[Deploy] Synthesizing CDK stack`);
-    const synthResult = await execCdk(['synth', stackName], { cwd: infraPath, env: cdkEnv });
+    const synthResult = await execCdk(['synth', stackName, ...contextArgs], { cwd: infraPath, env: cdkEnv });
 
     if (synthResult.exitCode !== 0) {
       throw new Error(`CDK synth failed: ${synthResult.stderr}`);
@@ -174,7 +217,7 @@ export async function deployCdkStack(
     if (onStatus) onStatus('deploy-cdk', 'Deploying infrastructure with CloudFormation');
     console.log(`[Deploy] Deploying CDK stack: ${stackName}`);
     const deployResult = await execCdk(
-      ['deploy', stackName, '--require-approval', 'never', '--outputs-file', 'outputs.json'],
+      ['deploy', stackName, ...contextArgs, '--require-approval', 'never', '--outputs-file', 'outputs.json'],
       { cwd: infraPath, env: cdkEnv, timeout: 900000 } // 15 minutes
     );
 
@@ -182,41 +225,13 @@ export async function deployCdkStack(
       throw new Error(`CDK deploy failed: ${deployResult.stderr}`);
     }
 
-    // Read outputs to get API URL
     const outputsFile = path.join(infraPath, 'outputs.json');
-    const outputsData = await readJson(outputsFile);
+    const outputsData = await readJson<Record<string, StackOutputs>>(outputsFile);
     const outputs: StackOutputs = outputsData[stackName] || {};
-    const apiUrl = outputs.ApiUrl || outputs.ApiEndpoint4F160690;
-
-    // Upload runtime config.json to S3 with API URL
-    if (onStatus) onStatus('deploy-config', 'Uploading runtime configuration');
-    console.log(`[Deploy] Uploading config.json with API URL: ${apiUrl}`);
-
-    const bucketName = outputs.WebBucketName;
-    if (bucketName) {
-      const s3Client = new S3Client({
-        region: region,
-        credentials: {
-          accessKeyId: credentials.accessKeyId,
-          secretAccessKey: credentials.secretAccessKey,
-          sessionToken: credentials.sessionToken,
-        },
-      });
-
-      const configContent = JSON.stringify({
-        apiUrl: apiUrl,
-        environment: environment,
-      });
-
-      await s3Client.send(new PutObjectCommand({
-        Bucket: bucketName,
-        Key: 'config.json',
-        Body: configContent,
-        ContentType: 'application/json',
-        CacheControl: 'no-cache', // Don't cache config
-      }));
-
-      console.log(`[Deploy] Config uploaded to s3://${bucketName}/config.json`);
+
+    // Blueprints without an API, like static sites, have no URL to hand the web app
+    if (blueprint.features.api) {
+      await uploadRuntimeConfig(outputs, region, environment, credentials, onStatus);
     }
 
     // Get preview/prod URL
@@ -232,6 +247,7 @@ export async function deployCdkStack(
       outputs,
       previewUrl,
       prodUrl,
+      image,
       status: 'success',
     };
   } catch (error: any) {
@@ -247,6 +263,88 @@ export async function deployCdkStack(
   }
 }
 
+/**
+ * URI of the stack's image repository. A stack without one yet is first
+ * deployed with no image tag, which creates the registry, network and
+ * database but nothing that runs the image.
+ */
+async function imageRepositoryUri(
+  infraPath: string,
+  stackName: string,
+  outputName: string,
+  cloudformation: CloudFormationClient,
+  env: NodeJS.ProcessEnv,
+  onStatus?: (step: string, message: string) => void
+): Promise<string> {
+  const existing = (await getStackOutputs(cloudformation, stackName))[outputName];
+  if (existing) return existing;
+
+  if (onStatus) onStatus('deploy-registry', 'Creating the image registry');
+  console.log(`[Deploy] Deploying ${stackName} without an image to create its registry`);
+  const result = await execCdk(
+    ['deploy', stackName, '--require-approval', 'never', '--outputs-file', 'outputs.json'],
+    { cwd: infraPath, env, timeout: 1800000 } // 30 minutes, the database is created here
+  );
+
+  if (result.exitCode !== 0) {
+    throw new Error(`CDK deploy of the image registry failed: ${result.stderr}`);
+  }
+
+  const outputs: StackOutputs = (await readJson<Record<string, StackOutputs>>(path.join(infraPath, 'outputs.json')))[stackName] || {};
+  if (!outputs[outputName]) {
+    throw new Error(`Stack ${stackName} has no ${outputName} output to push the image to`);
+  }
+  return outputs[outputName];
+}
+
+/**
+ * Upload config.json with the stack's API URL, and the Cognito user pool of
+ * apps with auth, to the web bucket, where the generated API client and auth
+ * library read it at runtime
+ */
+async function uploadRuntimeConfig(
+  outputs: StackOutputs,
+  region: string,
+  environment: Environment,
+  credentials: AssumedCredentials,
+  onStatus?: (step: string, message: string) => void
+): Promise<void> {
+  const apiUrl = outputs.ApiUrl || outputs.ApiEndpoint4F160690;
+
+  if (onStatus) onStatus('deploy-config', 'Uploading runtime configuration');
+  console.log(`[Deploy] Uploading config.json with API URL: ${apiUrl}`);
+
+  const bucketName = outputs.WebBucketName;
+  if (!bucketName) return;
+
+  const s3Client = new S3Client({
+    region: region,
+    credentials: {
+      accessKeyId: credentials.accessKeyId,
+      secretAccessKey: credentials.secretAccessKey,
+      sessionToken: credentials.sessionToken,
+    },
+  });
+
+  const configContent = JSON.stringify({
+    apiUrl: apiUrl,
+    environment: environment,
+    ...(outputs.UserPoolId && outputs.UserPoolClientId
+      ? { region, userPoolId: outputs.UserPoolId, userPoolClientId: outputs.UserPoolClientId }
+      : {}),
+  });
+
+  await s3Client.send(new PutObjectCommand({
+    Bucket: bucketName,
+    Key: 'config.json',
+    Body: configContent,
+    ContentType: 'application/json',
+    CacheControl: 'no-cache', // Don't cache config
+  }));
+
+  console.log(`[Deploy] Config uploaded to s3://${bucketName}/config.json`);
+}
+
 /**
  * Bootstrap CDK in target account
  */
@@ -0,0 +1,131 @@
+import { UsageTotals } from '@aws-vibe/shared';
+import { CaseScores, METRICS } from './score';
+
+export interface CaseResult {
+  id: string;
+  version: string;
+  scores: CaseScores;
+  overall: number;
+  repairs: number;
+  /** Missing coverage, uncalled or unknown endpoints, compile errors, failures */
+  notes: string[];
+  usage: UsageTotals;
+  durationMs: number;
+}
+
+export interface EvalRun {
+  version: string;
+  results: CaseResult[];
+}
+
+const METRIC_LABELS: Record<keyof CaseScores, string> = {
+  specValid: 'spec validity',
+  coverage: 'coverage',
+  typecheck: 'type-check',
+  consistency: 'page/API consistency',
+};
+
+/**
+ * Mean of a metric over the cases that have it
+ */
+export function meanScore(results: CaseResult[], metric: keyof CaseScores | 'overall'): number | undefined {
+  const values = results
+    .map((result) => (metric === 'overall' ? result.overall : result.scores[metric]))
+    .filter((value): value is number => value !== undefined);
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+}
+
+/**
+ * Markdown report for one run, or a baseline/candidate comparison with
+ * per-case deltas and a list of regressions
+ */
+export function renderReport(runs: EvalRun[], settings: { adapter: string; typecheck: boolean }): string {
+  const [baseline, candidate] = runs;
+  const title = candidate
+    ? `# Prompt evaluation: ${baseline.version} vs ${candidate.version}`
+    : `# Prompt evaluation: ${baseline.version}`;
+
+  const lines = [
+    title,
+    '',
+    `${baseline.results.length} cases, model adapter \`${settings.adapter}\`, type-check ${settings.typecheck ? 'on' : 'off'}`,
+    '',
+    '## Summary',
+    '',
+    `| Metric | ${runs.map((run) => run.version).join(' | ')}${candidate ? ' | Δ' : ''} |`,
+    `|---|${runs.map(() => '---:').join('|')}${candidate ? '|---:' : ''}|`,
+  ];
+
+  for (const metric of [...METRICS, 'overall' as const]) {
+    const values = runs.map((run) => meanScore(run.results, metric));
+    const label = metric === 'overall' ? '**overall**' : METRIC_LABELS[metric];
+    lines.push(`| ${label} | ${values.map(formatScore).join(' | ')}${candidate ? ` | ${formatDelta(values[0], values[1])}` : ''} |`);
+  }
+
+  const tokens = runs.map((run) => run.results.reduce((sum, result) => sum + result.usage.inputTokens + result.usage.outputTokens, 0));
+  lines.push(`| tokens | ${tokens.join(' | ')}${candidate ? ` | ${signed(tokens[1] - tokens[0])}` : ''} |`);
+
+  lines.push('', '## Cases', '');
+  lines.push(`| Case | ${runs.map((run) => run.version).join(' | ')}${candidate ? ' | Δ' : ''} |`);
+  lines.push(`|---|${runs.map(() => '---:').join('|')}${candidate ? '|---:' : ''}|`);
+
+  for (const result of baseline.results) {
+    const other = candidate?.results.find((r) => r.id === result.id);
+    const values = [result.overall, ...(other ? [other.overall] : [])];
+    lines.push(`| ${result.id} | ${values.map(formatScore).join(' | ')}${candidate ? ` | ${formatDelta(result.overall, other?.overall)}` : ''} |`);
+  }
+
+  if (candidate) {
+    const regressions = findRegressions(baseline, candidate);
+    lines.push('', '## Regressions', '');
+    lines.push(...(regressions.length > 0 ? regressions.map((r) => `- ${r}`) : ['None']));
+  }
+
+  for (const run of runs) {
+    const noted = run.results.filter((result) => result.notes.length > 0);
+    if (noted.length === 0) continue;
+
+    lines.push('', `## Notes (${run.version})`, '');
+    for (const result of noted) {
+      lines.push(`- **${result.id}**: ${result.notes.join('; ')}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Case metrics where the candidate scored lower than the baseline
+ */
+export function findRegressions(baseline: EvalRun, candidate: EvalRun): string[] {
+  const regressions: string[] = [];
+
+  for (const before of baseline.results) {
+    const after = candidate.results.find((r) => r.id === before.id);
+    if (!after) continue;
+
+    for (const metric of METRICS) {
+      const from = before.scores[metric];
+      const to = after.scores[metric];
+      if (from !== undefined && to !== undefined && to < from) {
+        regressions.push(`${before.id}: ${METRIC_LABELS[metric]} ${formatScore(from)} → ${formatScore(to)}`);
+      }
+    }
+  }
+
+  return regressions;
+}
+
+function formatScore(value: number | undefined): string {
+  return value === undefined ? 'n/a' : value.toFixed(2);
+}
+
+function formatDelta(from: number | undefined, to: number | undefined): string {
+  if (from === undefined || to === undefined) return 'n/a';
+  return signed(Number((to - from).toFixed(2)), 2);
+}
+
+function signed(value: number, digits = 0): string {
+  const text = value.toFixed(digits);
+  return value > 0 ? `+${text}` : text;
+}
@@ -0,0 +1,226 @@
+import * as path from 'path';
+import { AppSpec, Blueprint, SpecValidationError } from '@aws-vibe/shared';
+import { planAppSpec, generateAppCode } from '../scaffold/generateSpec';
+import { renderRepo } from '../scaffold/renderRepo';
+import { loadBlueprints } from '../scaffold/blueprintRegistry';
+import { typeCheck } from '../scaffold/verifyCode';
+import { needsNpmInstall } from '../deploy';
+import { getPrompts, DEFAULT_PROMPT_VERSION } from '../prompts';
+import { usageTracker } from '../usage';
+import { AssumedCredentials } from '../util/aws';
+import { execCommand } from '../util/exec';
+import { readJson, writeFile, removeDir } from '../util/fsx';
+import { GoldenCase, overallScore, scoreConsistency, scoreCoverage, scoreSpecValidity, CaseScores } from './score';
+import { CaseResult, EvalRun, findRegressions, meanScore, renderReport } from './report';
+
+const WORK_DIR = '/work';
+
+interface EvalOptions {
+  baseline: string;
+  candidate?: string;
+  corpus: string;
+  cases?: string[];
+  adapter: string;
+  typecheck: boolean;
+  out?: string;
+  failOnRegression: boolean;
+}
+
+const USAGE = `Usage: npm run eval -- [options]
+
+Runs the golden prompts through spec and code generation with one or two
+prompt versions and prints a scored comparison.
+
+  --baseline <version>    Prompt version to evaluate (default: ${DEFAULT_PROMPT_VERSION})
+  --candidate <version>   Second version to compare against the baseline
+  --corpus <file>         Golden prompts JSON (default: src/eval/golden.json)
+  --cases <id,id>         Only run these cases
+  --adapter <name>        Model adapter: fixture (default), local, or auto for Bedrock
+  --record <dir>          Save every model exchange as a fixture in <dir>
+  --no-typecheck          Skip rendering and type-checking the generated web code
+  --out <file>            Write the Markdown report here, and the raw scores next to it as JSON
+  --fail-on-regression    Exit 1 when the candidate scores lower than the baseline on any case`;
+
+/**
+ * Generate, render and score one golden case with the active prompt version
+ */
+async function evaluateCase(goldenCase: GoldenCase, version: string, options: EvalOptions): Promise<CaseResult> {
+  const startedAt = Date.now();
+  const notes: string[] = [];
+  const scores: CaseScores = { specValid: 0, coverage: 0, consistency: 0 };
+  let repairs = 0;
+
+  const onStatus = (step: string) => {
+    if (step === 'bedrock-repair') repairs++;
+  };
+
+  const usage = await usageTracker.run(
+    { jobId: `eval-${version}-${goldenCase.id}`, operation: 'eval', ledger: options.adapter !== 'fixture' },
+    async () => {
+      try {
+        let spec: AppSpec = await planAppSpec(goldenCase.prompt, goldenCase.blueprint, credentialsFromEnv(), onStatus);
+        scores.specValid = scoreSpecValidity(true, repairs);
+
+        const coverage = scoreCoverage(spec, goldenCase.expect);
+        scores.coverage = coverage.score;
+        if (coverage.missing.length > 0) notes.push(`missing ${coverage.missing.join(', ')}`);
+
+        spec = await generateAppCode(spec, credentialsFromEnv());
+
+        const consistency = scoreConsistency(spec);
+        scores.consistency = consistency.score;
+        if (consistency.uncalled.length > 0) notes.push(`web code never calls ${consistency.uncalled.join(', ')}`);
+        if (consistency.unknown.length > 0) notes.push(`web code calls unknown ${consistency.unknown.join(', ')}`);
+
+        if (options.typecheck && spec.blueprint === Blueprint.SERVERLESS) {
+          const errors = await typeCheckSpec(`eval-${version}-${goldenCase.id}`, spec);
+          scores.typecheck = errors.length === 0 ? 1 : 0;
+          if (errors.length > 0) notes.push(`${errors.length} compile errors, first: ${errors[0]}`);
+        }
+      } catch (error) {
+        if (error instanceof SpecValidationError) {
+          notes.push(`spec invalid: ${error.errors.slice(0, 3).join('; ')}`);
+        } else {
+          notes.push(`failed: ${(error as Error).message}`);
+        }
+      }
+
+      return usageTracker.current();
+    }
+  );
+
+  const result: CaseResult = {
+    id: goldenCase.id,
+    version,
+    scores,
+    overall: overallScore(scores),
+    repairs,
+    notes,
+    usage,
+    durationMs: Date.now() - startedAt,
+  };
+
+  console.log(`[Eval] ${version} ${goldenCase.id}: ${result.overall.toFixed(2)} (${Math.round(result.durationMs / 1000)}s)`);
+  return result;
+}
+
+/**
+ * Render the spec into a scratch repo and type-check its web app. Installed
+ * dependencies are kept between runs; generated sources are not.
+ */
+async function typeCheckSpec(repoName: string, spec: AppSpec): Promise<string[]> {
+  const webPath = path.join(WORK_DIR, repoName, 'web');
+  await removeDir(path.join(webPath, 'src'));
+  await renderRepo(repoName, spec, '000000000000', 'us-east-1');
+
+  if (await needsNpmInstall(webPath)) {
+    const installResult = await execCommand('npm', ['install'], { cwd: webPath, timeout: 300000 });
+    if (installResult.exitCode !== 0) {
+      throw new Error(`Web npm install failed: ${installResult.stderr}`);
+    }
+  }
+
+  const errors = await typeCheck(webPath);
+  return errors.map((error) => `${error.file}${error.line !== undefined ? `:${error.line}` : ''} ${error.message}`);
+}
+
+/**
+ * Fixture and local adapters never use these; Bedrock runs use the caller's own credentials
+ */
+function credentialsFromEnv(): AssumedCredentials {
+  return {
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
+    sessionToken: process.env.AWS_SESSION_TOKEN || '',
+  };
+}
+
+function parseArgs(args: string[]): EvalOptions {
+  const options: EvalOptions = {
+    baseline: DEFAULT_PROMPT_VERSION,
+    corpus: path.join(__dirname, 'golden.json'),
+    adapter: 'fixture',
+    typecheck: true,
+    failOnRegression: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => {
+      const next = args[++i];
+      if (next === undefined) throw new Error(`${arg} needs a value`);
+      return next;
+    };
+
+    switch (arg) {
+      case '--baseline': options.baseline = value(); break;
+      case '--candidate': options.candidate = value(); break;
+      case '--corpus': options.corpus = path.resolve(value()); break;
+      case '--cases': options.cases = value().split(','); break;
+      case '--adapter': options.adapter = value(); break;
+      case '--record': process.env.MODEL_RECORD_DIR = path.resolve(value()); break;
+      case '--no-typecheck': options.typecheck = false; break;
+      case '--out': options.out = path.resolve(value()); break;
+      case '--fail-on-regression': options.failOnRegression = true; break;
+      case '--help':
+        console.log(USAGE);
+        process.exit(0);
+        break;
+      default:
+        throw new Error(`Unknown option: ${arg}\n\n${USAGE}`);
+    }
+  }
+
+  return options;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  process.env.MODEL_ADAPTER = options.adapter;
+
+  const versions = [options.baseline, ...(options.candidate ? [options.candidate] : [])];
+  versions.forEach((version) => getPrompts(version)); // fail fast on unknown versions
+  await loadBlueprints();
+
+  let corpus = await readJson<GoldenCase[]>(options.corpus);
+  if (options.cases) {
+    corpus = corpus.filter((goldenCase) => options.cases!.includes(goldenCase.id));
+  }
+  if (corpus.length === 0) {
+    throw new Error('No golden cases to run');
+  }
+
+  console.log(`[Eval] ${corpus.length} cases, prompt versions ${versions.join(' vs ')}, adapter ${options.adapter}`);
+
+  // Prompts are read from PROMPT_VERSION on every call, so versions run one after the other
+  const runs: EvalRun[] = [];
+  for (const version of versions) {
+    process.env.PROMPT_VERSION = version;
+    const results: CaseResult[] = [];
+    for (const goldenCase of corpus) {
+      results.push(await evaluateCase(goldenCase, version, options));
+    }
+    runs.push({ version, results });
+  }
+
+  const report = renderReport(runs, { adapter: options.adapter, typecheck: options.typecheck });
+  if (options.out) {
+    await writeFile(options.out, report);
+    await writeFile(options.out.replace(/\.md$/, '') + '.json', JSON.stringify(runs, null, 2));
+    console.log(`[Eval] Report written to ${options.out}`);
+  }
+  console.log(`\n${report}`);
+
+  for (const run of runs) {
+    console.log(`[Eval] ${run.version} overall: ${meanScore(run.results, 'overall')?.toFixed(2)}`);
+  }
+
+  if (options.failOnRegression && runs.length === 2 && findRegressions(runs[0], runs[1]).length > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(`[Eval] ${error.message}`);
+  process.exit(1);
+});
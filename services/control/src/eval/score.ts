@@ -0,0 +1,145 @@
+import { AppSpec, Blueprint } from '@aws-vibe/shared';
+import { sameName } from '../scaffold/bindings';
+import { apiClientSource } from '../scaffold/apiClient';
+
+/**
+ * A golden prompt and what a good spec for it must contain
+ */
+export interface GoldenCase {
+  id: string;
+  blueprint: Blueprint;
+  prompt: string;
+  expect: {
+    tables?: string[];
+    /** "METHOD /path", with any {param} name matching any other */
+    endpoints?: string[];
+  };
+}
+
+/**
+ * Scores from 0 to 1; typecheck is left out when it was not run
+ */
+export interface CaseScores {
+  /** 1 when the first spec was valid, 0.5 when it needed repairs, 0 when it never was */
+  specValid: number;
+  /** Share of the expected tables and endpoints present in the spec */
+  coverage: number;
+  /** 1 when the generated web code type-checks */
+  typecheck?: number;
+  /** Spec endpoints the web code calls, penalised by calls to endpoints that don't exist */
+  consistency: number;
+}
+
+export const METRICS: (keyof CaseScores)[] = ['specValid', 'coverage', 'typecheck', 'consistency'];
+
+export function overallScore(scores: CaseScores): number {
+  const values = METRICS.map((metric) => scores[metric]).filter((value): value is number => value !== undefined);
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+export function scoreSpecValidity(valid: boolean, repairs: number): number {
+  if (!valid) return 0;
+  return repairs === 0 ? 1 : 0.5;
+}
+
+/**
+ * Share of the case's expected tables and endpoints found in the spec, with missing ones listed
+ */
+export function scoreCoverage(spec: AppSpec, expected: GoldenCase['expect']): { score: number; missing: string[] } {
+  const missing: string[] = [];
+  const tables = expected.tables || [];
+  const endpoints = expected.endpoints || [];
+
+  for (const table of tables) {
+    if (!spec.dataModel.some((model) => sameName(model.table, table))) missing.push(`table ${table}`);
+  }
+
+  for (const endpoint of endpoints) {
+    const [method, endpointPath] = endpoint.split(' ');
+    const found = spec.api.some(
+      (api) => api.method === method.toUpperCase() && samePath(api.path, endpointPath)
+    );
+    if (!found) missing.push(endpoint);
+  }
+
+  const total = tables.length + endpoints.length;
+  return { score: total === 0 ? 1 : (total - missing.length) / total, missing };
+}
+
+/**
+ * Compare the API the generated web code uses with the spec's endpoints. With
+ * the generated client, that is which client functions the code calls and
+ * imports; with a model-written lib/api.ts, the paths read from string and
+ * template literals, so `${base}/todos/${id}` counts as a call to /todos/{id}.
+ */
+export function scoreConsistency(spec: AppSpec): { score: number; uncalled: string[]; unknown: string[] } {
+  const code = spec.generatedCode;
+  if (!code || spec.api.length === 0) return { score: 1, uncalled: [], unknown: [] };
+  if (!code.lib.api) return scoreClientUsage(spec);
+
+  const allSources = [...Object.values(code.lib), ...Object.values(code.components), ...Object.values(code.pages)];
+  const used = new Set(allSources.flatMap(literalPaths));
+  const pageRoutes = new Set(spec.pages.map((page) => normalizePath(page.route)));
+
+  const uncalled = spec.api
+    .filter((api) => !used.has(normalizePath(api.path)))
+    .map((api) => `${api.method} ${api.path}`);
+
+  // Only the API client is checked for calls to missing endpoints; pages link to routes too
+  const apiClient = code.lib.api ? literalPaths(code.lib.api) : [];
+  const known = new Set(spec.api.map((api) => normalizePath(api.path)));
+  const unknown = [...new Set(apiClient)].filter(
+    (usedPath) => !known.has(usedPath) && !pageRoutes.has(usedPath) && usedPath !== '/config.json'
+  );
+
+  const called = spec.api.length - uncalled.length;
+  return { score: called / (spec.api.length + unknown.length), uncalled, unknown };
+}
+
+function scoreClientUsage(spec: AppSpec): { score: number; uncalled: string[]; unknown: string[] } {
+  const code = spec.generatedCode!;
+  const sources = [...Object.values(code.lib), ...Object.values(code.components), ...Object.values(code.pages)].join('\n');
+
+  const uncalled = spec.api
+    .filter((api) => !new RegExp(`\\b${api.handler}\\s*(<[^>]*>)?\\(`).test(sources))
+    .map((api) => `${api.method} ${api.path}`);
+
+  // Names imported from lib/api that the client does not export
+  const exported = new Set(apiClientSource(spec).match(/export (?:async function|function|class|interface|type) (\w+)/g)?.map((line) => line.split(' ').pop()!));
+  const imported = Array.from(sources.matchAll(/import\s+(?:type\s+)?\{([^}]*)\}\s+from\s+['"][./]*lib\/api['"]/g))
+    .flatMap((match) => match[1].split(','))
+    .map((name) => name.trim().replace(/^type\s+/, '').split(/\s+as\s+/)[0])
+    .filter(Boolean);
+  const unknown = Array.from(new Set(imported)).filter((name) => !exported.has(name));
+
+  const called = spec.api.length - uncalled.length;
+  return { score: called / (spec.api.length + unknown.length), uncalled, unknown };
+}
+
+function samePath(a: string, b: string): boolean {
+  return normalizePath(a) === normalizePath(b);
+}
+
+/**
+ * Lower-case, drop trailing slashes and any query string, and make every parameter {}
+ */
+function normalizePath(value: string): string {
+  const normalized = value
+    .split('?')[0]
+    .replace(/\{[^}]*\}/g, '{}')
+    .replace(/\/+$/, '')
+    .toLowerCase();
+  return normalized || '/';
+}
+
+function literalPaths(source: string): string[] {
+  const paths: string[] = [];
+  const literal = /(['"`])((?:(?!\1)[^\n\\])*)\1/g;
+
+  for (const match of source.matchAll(literal)) {
+    const value = match[2].replace(/\$\{[^}]*\}/g, '{}').replace(/^\{\}/, '');
+    if (/^\/[A-Za-z0-9_\-{}/.?=&]*$/.test(value)) paths.push(normalizePath(value));
+  }
+
+  return paths;
+}
@@ -12,22 +12,53 @@ import {
   ConnectUrlResponse,
   CheckConnectionResponse,
   GenerateResponse,
+  PlanResponse,
+  IterateResponse,
   PublishResponse,
   DestroyResponse,
   AppListItem,
+  UsageResponse,
   Environment,
   AppManifest,
-  Blueprint,
+  AppSpec,
+  BlueprintsResponse,
+  ConversationOperation,
+  ConversationResponse,
+  TestSummary,
+  TestFailureError,
+  BedrockServiceError,
+  CodeVerificationError,
+  SpecLintError,
+  LintFinding,
+  SafetyError,
+  SafetyFinding,
+  DeploymentResult,
+  SeedTableResult,
+  SeedRequest,
+  SeedResponse,
 } from '@aws-vibe/shared';
 
 import { getTenantConfig, buildQuickCreateUrl, verifyConnection, ensureStackExists } from './connect';
-import { assumeRole } from './util/aws';
-import { generateAppSpec } from './scaffold/generateSpec';
-import { renderRepo } from './scaffold/renderRepo';
+import { assumeRole, AssumedCredentials } from './util/aws';
+import { generateAppSpec, planAppSpec, generateAppCode, refineAppSpec } from './scaffold/generateSpec';
+import { modelAcceptsImages, imagesUnsupported } from './bedrock';
+import { renderRepo, createDraft, updateRepo, manifestStackName, snapshotRepo, restoreRepo } from './scaffold/renderRepo';
+import { loadBlueprints, listBlueprints } from './scaffold/blueprintRegistry';
+import { appendTurn, readConversation } from './scaffold/conversation';
+import { saveMockups, loadMockups } from './scaffold/mockups';
+import { validateAppSpec } from './scaffold/specSchema';
+import { lintSpec, lintErrors, formatFinding } from './scaffold/lintSpec';
+import { parseSpecDocument, serializeSpec, serializeOpenApi } from './scaffold/specFormat';
+import { buildOpenApiDocument } from './scaffold/openapi';
+import { verifyGeneratedCode, VerificationResult } from './scaffold/verifyCode';
+import { runGeneratedTests, testGateMode } from './scaffold/runTests';
+import { seedTables } from './seed';
+import { screenPrompt, safetyMode, blockingFindings, formatSafetyFinding } from './safety';
 import { deployCdkStack, destroyCdkStack } from './deploy';
-import { validateRequest, generateRequestSchema, publishRequestSchema, destroyRequestSchema, checkConnectionRequestSchema } from './util/validation';
-import { readJson, writeJson, listDir, exists } from './util/fsx';
+import { validateRequest, generateRequestSchema, iterateRequestSchema, importRequestSchema, specFormatSchema, usageQuerySchema, appIdSchema, publishRequestSchema, destroyRequestSchema, seedRequestSchema, checkConnectionRequestSchema } from './util/validation';
+import { readJson, writeJson, listDir, exists, headCommit } from './util/fsx';
 import { statusTracker } from './statusTracker';
+import { usageTracker } from './usage';
 
 const app = express();
 const port = process.env.PORT || 4000;
@@ -36,7 +67,8 @@ const WORK_DIR = '/work';
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Imported specs may carry generated code, and generate requests mockup images
+app.use(express.json({ limit: '30mb' }));
 
 // Request logging
 app.use((req, res, next) => {
@@ -114,6 +146,14 @@ app.post('/api/check', async (req, res) => {
   }
 });
 
+/**
+ * Blueprints apps can be generated with, built-in and from BLUEPRINT_DIRS
+ */
+app.get('/api/blueprints', (req, res) => {
+  const response: BlueprintsResponse = { blueprints: listBlueprints() };
+  res.json(response);
+});
+
 /**
  * Get generation status
  */
@@ -135,9 +175,20 @@ app.post('/api/generate', async (req, res) => {
   try {
     const data = validateRequest(generateRequestSchema, req.body);
     const { accountId, region, blueprint, prompt, appName } = data;
+    const images = data.images || [];
+
+    if (images.length > 0 && !modelAcceptsImages()) {
+      return res.status(400).json({ error: 'Model cannot read images', message: imagesUnsupported().message });
+    }
+
+    const limitReached = await usageTracker.exceededLimit();
+    if (limitReached) {
+      return res.status(429).json({ error: 'Spending limit reached', message: limitReached });
+    }
 
-    // Generate job ID
+    // Generate job and app IDs
     const jobId = uuidv4();
+    const appId = uuidv4();
 
     // Create job tracking
     statusTracker.createJob(jobId);
@@ -146,15 +197,11 @@ app.post('/api/generate', async (req, res) => {
     res.json({ jobId });
 
     // Start async generation process
-    (async () => {
+    usageTracker.run({ jobId, appId, operation: 'generate' }, async () => {
       try {
         statusTracker.addUpdate(jobId, 'validate', 'Validating request and preparing AWS credentials', false);
 
-        // Sanitize app name for CloudFormation (no spaces, special chars)
-        const sanitizedAppName = appName
-          .replace(/[^a-zA-Z0-9-]/g, '-')  // Replace invalid chars with hyphen
-          .replace(/-+/g, '-')              // Remove consecutive hyphens
-          .replace(/^-|-$/g, '');           // Remove leading/trailing hyphens
+        const sanitizedAppName = sanitizeAppName(appName);
 
         // Get tenant config for external ID
         const { externalId } = await getTenantConfig();
@@ -173,78 +220,668 @@ app.post('/api/generate', async (req, res) => {
         });
 
         statusTracker.addUpdate(jobId, 'assume-role', 'AWS role assumed successfully', true);
+
+        const safety = await screenJobPrompt(jobId, prompt, credentials);
+
         statusTracker.addUpdate(jobId, 'bedrock-spec', 'Calling Amazon Bedrock to generate app specification', false);
 
         // Generate app spec using Bedrock
         console.log(`[API] Generating spec for: ${appName}`);
         const spec = await generateAppSpec(prompt, blueprint, credentials, (step, message) => {
           statusTracker.addUpdate(jobId, step, message, false);
-        });
+        }, images);
 
         statusTracker.addUpdate(jobId, 'bedrock-spec', 'App specification generated', true);
 
-        // Generate app ID
-        const appId = uuidv4();
+        const response = await buildApp(jobId, appId, spec, accountId, region, sanitizedAppName, externalId, credentials, {
+          operation: 'generate',
+          prompt,
+        });
+
+        statusTracker.completeJob(jobId, { ...response, safety: [...safety, ...(response.safety || [])] });
+        statusTracker.cleanup(jobId);
+      } catch (error: any) {
+        console.error('[API] Generate error:', error);
+        statusTracker.failJob(jobId, jobErrorMessage(error));
+        statusTracker.cleanup(jobId);
+      }
+    });
+  } catch (error: any) {
+    console.error('[API] Generate validation error:', error);
+    res.status(400).json({
+      error: 'Validation failed',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * Plan an app: generate a draft spec for review without building or deploying it
+ */
+app.post('/api/plan', async (req, res) => {
+  try {
+    const data = validateRequest(generateRequestSchema, req.body);
+    const { accountId, region, blueprint, prompt, appName } = data;
+    const images = data.images || [];
 
-        statusTracker.addUpdate(jobId, 'scaffold', 'Writing generated code and infrastructure files', false);
+    if (images.length > 0 && !modelAcceptsImages()) {
+      return res.status(400).json({ error: 'Model cannot read images', message: imagesUnsupported().message });
+    }
 
-        // Render repository with sanitized app name
-        console.log(`[API] Rendering repository for: ${appName}`);
-        await renderRepo(appId, spec, accountId, region, sanitizedAppName);
+    const limitReached = await usageTracker.exceededLimit();
+    if (limitReached) {
+      return res.status(429).json({ error: 'Spending limit reached', message: limitReached });
+    }
 
-        statusTracker.addUpdate(jobId, 'scaffold', 'Repository scaffolded successfully', true);
-        statusTracker.addUpdate(jobId, 'deploy', 'Deploying infrastructure to AWS (this may take 3-5 minutes)', false);
+    const jobId = uuidv4();
+    const appId = uuidv4();
+    statusTracker.createJob(jobId);
+    res.json({ jobId });
 
-        // Deploy dev stack
-        console.log(`[API] Deploying dev stack for: ${sanitizedAppName}`);
-        const deployment = await deployCdkStack(
-          appId,
-          sanitizedAppName,
+    usageTracker.run({ jobId, appId, operation: 'plan' }, async () => {
+      try {
+        statusTracker.addUpdate(jobId, 'validate', 'Validating request and preparing AWS credentials', false);
+
+        const { externalId } = await getTenantConfig();
+        const roleName = process.env.ROLE_NAME || 'VibeDeployerRole';
+
+        statusTracker.addUpdate(jobId, 'validate', 'AWS credentials validated', true);
+        statusTracker.addUpdate(jobId, 'assume-role', 'Assuming AWS role', false);
+
+        const credentials = await assumeRole({
           accountId,
           region,
-          Environment.DEV,
+          roleName,
           externalId,
-          (step, message) => {
+          sessionName: `vibe-plan-${Date.now()}`,
+        });
+
+        statusTracker.addUpdate(jobId, 'assume-role', 'AWS role assumed successfully', true);
+
+        const safety = await screenJobPrompt(jobId, prompt, credentials);
+
+        statusTracker.addUpdate(jobId, 'bedrock-spec', 'Calling Amazon Bedrock to plan app specification', false);
+
+        console.log(`[API] Planning spec for: ${appName}`);
+        const planned = await planAppSpec(prompt, blueprint, credentials, (step, message) => {
+          statusTracker.addUpdate(jobId, step, message, false);
+        }, images);
+
+        statusTracker.addUpdate(jobId, 'bedrock-spec', 'App specification planned', true);
+
+        const { spec, lint } = lintJobSpec(jobId, planned);
+
+        await createDraft(appId, spec, accountId, region, sanitizeAppName(appName), prompt);
+        await appendTurn(appId, { operation: 'plan', jobId, prompt, spec });
+
+        const usage = usageTracker.current();
+        const modelCalls = usageTracker.currentCalls();
+        const manifestPath = path.join(WORK_DIR, appId, '.vibe', 'manifest.json');
+        const manifest: AppManifest = await readJson(manifestPath);
+        manifest.usage = usage;
+        manifest.modelCalls = modelCalls;
+        if (images.length > 0) manifest.mockups = await saveMockups(appId, images);
+        await writeJson(manifestPath, manifest);
+
+        const response: PlanResponse = { appId, spec, lint, safety, usage, modelCalls };
+
+        statusTracker.addUpdate(jobId, 'draft', 'Draft saved for review', true);
+        statusTracker.completeJob(jobId, response);
+        statusTracker.cleanup(jobId);
+      } catch (error: any) {
+        console.error('[API] Plan error:', error);
+        statusTracker.failJob(jobId, jobErrorMessage(error));
+        statusTracker.cleanup(jobId);
+      }
+    });
+  } catch (error: any) {
+    console.error('[API] Plan validation error:', error);
+    res.status(400).json({
+      error: 'Validation failed',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * Replace a draft app's spec with the user's edited version
+ */
+app.put('/api/apps/:appId/spec', async (req, res) => {
+  try {
+    const appId = validateRequest(appIdSchema, req.params.appId);
+
+    const manifestPath = path.join(WORK_DIR, appId, '.vibe', 'manifest.json');
+    if (!(await exists(manifestPath))) {
+      return res.status(404).json({ error: 'App not found' });
+    }
+
+    const manifest: AppManifest = await readJson(manifestPath);
+    if (manifest.status !== 'draft') {
+      return res.status(409).json({
+        error: 'App already built',
+        message: 'Only draft specs can be edited; use iterate to change a built app',
+      });
+    }
+
+    const result = validateAppSpec(req.body, manifest.blueprint);
+    if (!result.success) {
+      return res.status(400).json({
+        error: 'Invalid spec',
+        message: result.errors.join('; '),
+        errors: result.errors,
+      });
+    }
+
+    const { spec, findings } = lintSpec(result.spec);
+    const errors = lintErrors(findings);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid spec',
+        message: errors.map(formatFinding).join('; '),
+        errors: errors.map(formatFinding),
+        lint: findings,
+      });
+    }
+
+    const previousSpec = manifest.spec;
+    manifest.spec = spec;
+    manifest.updatedAt = new Date().toISOString();
+    await writeJson(manifestPath, manifest);
+    await appendTurn(appId, { operation: 'edit', spec: manifest.spec, previousSpec });
+
+    const response: PlanResponse = { appId, spec: manifest.spec, lint: findings };
+    res.json(response);
+  } catch (error: any) {
+    console.error('[API] Update spec error:', error);
+    res.status(400).json({
+      error: 'Validation failed',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * Build a draft app: generate its code, render the repo and deploy dev
+ */
+app.post('/api/apps/:appId/build', async (req, res) => {
+  try {
+    const appId = validateRequest(appIdSchema, req.params.appId);
+
+    const manifestPath = path.join(WORK_DIR, appId, '.vibe', 'manifest.json');
+    if (!(await exists(manifestPath))) {
+      return res.status(404).json({ error: 'App not found' });
+    }
+
+    const manifest: AppManifest = await readJson(manifestPath);
+    if (manifest.status !== 'draft') {
+      return res.status(409).json({
+        error: 'App already built',
+        message: 'Use iterate to change a built app',
+      });
+    }
+
+    const limitReached = await usageTracker.exceededLimit();
+    if (limitReached) {
+      return res.status(429).json({ error: 'Spending limit reached', message: limitReached });
+    }
+
+    const jobId = uuidv4();
+    statusTracker.createJob(jobId);
+    res.json({ jobId });
+
+    usageTracker.run({ jobId, appId, operation: 'build' }, async () => {
+      try {
+        statusTracker.addUpdate(jobId, 'validate', 'Validating request and preparing AWS credentials', false);
+
+        const { accountId, region, appName } = manifest;
+        const { externalId } = await getTenantConfig();
+        const roleName = process.env.ROLE_NAME || 'VibeDeployerRole';
+
+        statusTracker.addUpdate(jobId, 'validate', 'AWS credentials validated', true);
+        statusTracker.addUpdate(jobId, 'assume-role', 'Assuming AWS role for deployment', false);
+
+        const credentials = await assumeRole({
+          accountId,
+          region,
+          roleName,
+          externalId,
+          sessionName: `vibe-build-${Date.now()}`,
+        });
+
+        statusTracker.addUpdate(jobId, 'assume-role', 'AWS role assumed successfully', true);
+        statusTracker.addUpdate(jobId, 'bedrock-spec', 'Calling Amazon Bedrock to generate app code', false);
+
+        console.log(`[API] Generating code for draft: ${appName}`);
+        const images = manifest.mockups ? await loadMockups(appId, manifest.mockups) : [];
+        const spec = manifest.spec.generatedCode
+          ? manifest.spec
+          : await generateAppCode(manifest.spec, credentials, (step, message) => {
             statusTracker.addUpdate(jobId, step, message, false);
-          }
-        );
+          }, images);
+
+        statusTracker.addUpdate(jobId, 'bedrock-spec', 'App code generated', true);
+
+        const response = await buildApp(jobId, appId, spec, accountId, region, manifestStackName(manifest), externalId, credentials, {
+          operation: 'build',
+        });
+
+        statusTracker.completeJob(jobId, response);
+        statusTracker.cleanup(jobId);
+      } catch (error: any) {
+        console.error('[API] Build error:', error);
+        statusTracker.failJob(jobId, jobErrorMessage(error));
+        statusTracker.cleanup(jobId);
+      }
+    });
+  } catch (error: any) {
+    console.error('[API] Build validation error:', error);
+    res.status(400).json({
+      error: 'Validation failed',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * Import a hand-written spec (JSON or YAML), then render and deploy it without calling the model
+ */
+app.post('/api/import', async (req, res) => {
+  try {
+    const data = validateRequest(importRequestSchema, req.body);
+    const { accountId, region } = data;
+
+    const result = validateAppSpec(parseSpecDocument(data.spec));
+    if (!result.success) {
+      return res.status(400).json({
+        error: 'Invalid spec',
+        message: result.errors.join('; '),
+        errors: result.errors,
+      });
+    }
+
+    // buildApp lints again to apply the fixes and report them on the job
+    const errors = lintErrors(lintSpec(result.spec).findings);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid spec',
+        message: errors.map(formatFinding).join('; '),
+        errors: errors.map(formatFinding),
+        lint: errors,
+      });
+    }
+
+    const spec = result.spec;
+    const sanitizedAppName = sanitizeAppName(data.appName || spec.name);
+    if (!sanitizedAppName) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'appName is required when the spec name has no usable characters',
+      });
+    }
+
+    const jobId = uuidv4();
+    const appId = uuidv4();
+    statusTracker.createJob(jobId);
+    res.json({ jobId });
+
+    usageTracker.run({ jobId, appId, operation: 'import' }, async () => {
+      try {
+        statusTracker.addUpdate(jobId, 'validate', 'Spec validated, preparing AWS credentials', false);
+
+        const { externalId } = await getTenantConfig();
+        const roleName = process.env.ROLE_NAME || 'VibeDeployerRole';
+
+        statusTracker.addUpdate(jobId, 'validate', 'AWS credentials validated', true);
+        statusTracker.addUpdate(jobId, 'assume-role', 'Assuming AWS role for deployment', false);
+
+        const credentials = await assumeRole({
+          accountId,
+          region,
+          roleName,
+          externalId,
+          sessionName: `vibe-import-${Date.now()}`,
+        });
 
-        if (deployment.status === 'failed') {
-          throw new Error(deployment.error || 'Deployment failed');
+        statusTracker.addUpdate(jobId, 'assume-role', 'AWS role assumed successfully', true);
+
+        console.log(`[API] Importing spec for: ${sanitizedAppName}`);
+        const response = await buildApp(jobId, appId, spec, accountId, region, sanitizedAppName, externalId, credentials, {
+          operation: 'import',
+        }, false);
+
+        statusTracker.completeJob(jobId, response);
+        statusTracker.cleanup(jobId);
+      } catch (error: any) {
+        console.error('[API] Import error:', error);
+        statusTracker.failJob(jobId, jobErrorMessage(error));
+        statusTracker.cleanup(jobId);
+      }
+    });
+  } catch (error: any) {
+    console.error('[API] Import validation error:', error);
+    res.status(400).json({
+      error: 'Validation failed',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * Export an app's spec as JSON or YAML, in the format import accepts
+ */
+app.get('/api/apps/:appId/spec', async (req, res) => {
+  try {
+    const appId = validateRequest(appIdSchema, req.params.appId);
+    const format = validateRequest(specFormatSchema, req.query.format || 'json');
+
+    const manifestPath = path.join(WORK_DIR, appId, '.vibe', 'manifest.json');
+    if (!(await exists(manifestPath))) {
+      return res.status(404).json({ error: 'App not found' });
+    }
+
+    const manifest: AppManifest = await readJson(manifestPath);
+    const spec = req.query.code === 'false'
+      ? { ...manifest.spec, generatedCode: undefined }
+      : manifest.spec;
+
+    res.type(format === 'yaml' ? 'application/yaml' : 'application/json');
+    res.attachment(`${manifest.appName}.spec.${format}`);
+    res.send(serializeSpec(spec, format));
+  } catch (error: any) {
+    console.error('[API] Export spec error:', error);
+    res.status(400).json({
+      error: 'Validation failed',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * Export the OpenAPI document for an app's API, built from its current spec
+ */
+app.get('/api/apps/:appId/openapi', async (req, res) => {
+  try {
+    const appId = validateRequest(appIdSchema, req.params.appId);
+    const format = validateRequest(specFormatSchema, req.query.format || 'json');
+
+    const manifestPath = path.join(WORK_DIR, appId, '.vibe', 'manifest.json');
+    if (!(await exists(manifestPath))) {
+      return res.status(404).json({ error: 'App not found' });
+    }
+
+    const manifest: AppManifest = await readJson(manifestPath);
+    res.type(format === 'yaml' ? 'application/yaml' : 'application/json');
+    res.send(serializeOpenApi(buildOpenApiDocument(manifest.spec), format));
+  } catch (error: any) {
+    console.error('[API] OpenAPI error:', error);
+    res.status(400).json({
+      error: 'Validation failed',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * Read an app's conversation log: every prompt, the spec version it produced and its commit
+ */
+app.get('/api/apps/:appId/conversation', async (req, res) => {
+  try {
+    const appId = validateRequest(appIdSchema, req.params.appId);
+
+    const manifestPath = path.join(WORK_DIR, appId, '.vibe', 'manifest.json');
+    if (!(await exists(manifestPath))) {
+      return res.status(404).json({ error: 'App not found' });
+    }
+
+    const manifest: AppManifest = await readJson(manifestPath);
+    const response: ConversationResponse = {
+      appId,
+      prompt: manifest.prompt,
+      turns: await readConversation(appId),
+    };
+    res.json(response);
+  } catch (error: any) {
+    console.error('[API] Conversation error:', error);
+    res.status(400).json({
+      error: 'Validation failed',
+      message: error.message,
+    });
+  }
+});
+
+/**
+ * Reload or clear the seed data in an app's dev tables. Prod is never seeded.
+ */
+app.post('/api/apps/:appId/seed', async (req, res) => {
+  let appId: string;
+  let seedRequest: SeedRequest;
+  try {
+    appId = validateRequest(appIdSchema, req.params.appId);
+    seedRequest = validateRequest(seedRequestSchema, req.body);
+  } catch (error: any) {
+    console.error('[API] Seed validation error:', error);
+    return res.status(400).json({
+      error: 'Validation failed',
+      message: error.message,
+    });
+  }
+
+  try {
+    const manifestPath = path.join(WORK_DIR, appId, '.vibe', 'manifest.json');
+    if (!(await exists(manifestPath))) {
+      return res.status(404).json({ error: 'App not found' });
+    }
+
+    const manifest: AppManifest = await readJson(manifestPath);
+    if (!manifest.deployments.dev) {
+      return res.status(400).json({ error: 'Validation failed', message: 'Deploy the app to dev before seeding it' });
+    }
+
+    const mismatch = targetMismatch(manifest, seedRequest.accountId, seedRequest.region);
+    if (mismatch) {
+      return res.status(400).json({ error: 'Validation failed', message: mismatch });
+    }
+
+    const { action } = seedRequest;
+    const { region } = manifest;
+    const { externalId } = await getTenantConfig();
+    const credentials = await assumeRole({
+      accountId: manifest.accountId,
+      region,
+      roleName: process.env.ROLE_NAME || 'VibeDeployerRole',
+      externalId,
+      sessionName: `vibe-seed-${Date.now()}`,
+    });
+
+    console.log(`[API] ${action} dev tables for: ${manifest.appName}`);
+    const response: SeedResponse = {
+      appId,
+      tables: await seedTables(appId, manifest.spec, manifest.deployments.dev, credentials, region, action),
+    };
+    res.json(response);
+  } catch (error: any) {
+    console.error('[API] Seed error:', error);
+    res.status(500).json({ error: 'Seed failed', message: error.message });
+  }
+});
+
+/**
+ * Refine an existing app from a follow-up prompt and redeploy dev
+ */
+app.post('/api/apps/:appId/iterate', async (req, res) => {
+  try {
+    const appId = validateRequest(appIdSchema, req.params.appId);
+    const data = validateRequest(iterateRequestSchema, req.body);
+    const { accountId, region, prompt } = data;
+
+    const manifestPath = path.join(WORK_DIR, appId, '.vibe', 'manifest.json');
+    if (!(await exists(manifestPath))) {
+      return res.status(404).json({ error: 'App not found' });
+    }
+
+    const existing: AppManifest = await readJson(manifestPath);
+    if (existing.status === 'draft') {
+      return res.status(409).json({
+        error: 'App is a draft',
+        message: 'Build the draft before iterating on it',
+      });
+    }
+
+    const mismatch = targetMismatch(existing, accountId, region);
+    if (mismatch) {
+      return res.status(400).json({ error: 'Validation failed', message: mismatch });
+    }
+
+    const limitReached = await usageTracker.exceededLimit();
+    if (limitReached) {
+      return res.status(429).json({ error: 'Spending limit reached', message: limitReached });
+    }
+
+    const jobId = uuidv4();
+    statusTracker.createJob(jobId);
+    res.json({ jobId });
+
+    usageTracker.run({ jobId, appId, operation: 'iterate' }, async () => {
+      try {
+        statusTracker.addUpdate(jobId, 'validate', 'Loading app manifest and preparing AWS credentials', false);
+
+        const manifest: AppManifest = await readJson(manifestPath);
+        const sanitizedAppName = manifestStackName(manifest);
+
+        const { externalId } = await getTenantConfig();
+        const roleName = process.env.ROLE_NAME || 'VibeDeployerRole';
+
+        statusTracker.addUpdate(jobId, 'validate', 'App manifest loaded', true);
+        statusTracker.addUpdate(jobId, 'assume-role', 'Assuming AWS role for deployment', false);
+
+        const credentials = await assumeRole({
+          accountId: manifest.accountId,
+          region: manifest.region,
+          roleName,
+          externalId,
+          sessionName: `vibe-iterate-${Date.now()}`,
+        });
+
+        statusTracker.addUpdate(jobId, 'assume-role', 'AWS role assumed successfully', true);
+
+        const promptSafety = await screenJobPrompt(jobId, prompt, credentials);
+
+        statusTracker.addUpdate(jobId, 'bedrock-spec', 'Calling Amazon Bedrock to revise app specification', false);
+
+        console.log(`[API] Refining spec for: ${manifest.appName}`);
+        const history = await readConversation(appId);
+        const refined = await refineAppSpec(manifest.spec, prompt, history, credentials, (step, message) => {
+          statusTracker.addUpdate(jobId, step, message, false);
+        });
+
+        statusTracker.addUpdate(jobId, 'bedrock-spec', 'App specification revised', true);
+
+        const { spec, lint } = lintJobSpec(jobId, refined);
+        statusTracker.addUpdate(jobId, 'scaffold', 'Re-rendering affected files', false);
+
+        // Until dev runs the revised spec, a failure puts the repo and manifest back
+        const snapshot = await snapshotRepo(appId);
+        let commit: string;
+        let changedFiles: string[];
+        let verification: VerificationResult;
+        let tests: TestSummary | undefined;
+        let deployment: DeploymentResult;
+
+        try {
+          console.log(`[API] Updating repository for: ${manifest.appName}`);
+          ({ commit, changedFiles } = await updateRepo(appId, spec, `Iterate: ${prompt}`));
+
+          statusTracker.addUpdate(jobId, 'scaffold', `Committed ${changedFiles.length} changed files (${commit.slice(0, 7)})`, true);
+          statusTracker.addUpdate(jobId, 'verify', 'Checking that generated code compiles', false);
+
+          verification = await verifyGeneratedCode(appId, spec, credentials, (step, message) => {
+            statusTracker.addUpdate(jobId, step, message, false);
+          });
+
+          statusTracker.addUpdate(jobId, 'verify', verification.fixRounds > 0
+            ? `Generated code compiles after ${verification.fixRounds} fix rounds`
+            : 'Generated code compiles', true);
+
+          tests = await runTestGate(jobId, appId, verification.spec.blueprint);
+
+          statusTracker.addUpdate(jobId, 'deploy', 'Redeploying dev infrastructure', false);
+
+          console.log(`[API] Redeploying dev stack for: ${sanitizedAppName}`);
+          deployment = await deployCdkStack(
+            appId,
+            sanitizedAppName,
+            manifest.accountId,
+            manifest.region,
+            Environment.DEV,
+            externalId,
+            (step, message) => {
+              statusTracker.addUpdate(jobId, step, message, false);
+            }
+          );
+
+          if (deployment.status === 'failed') {
+            throw new Error(deployment.error || 'Deployment failed');
+          }
+        } catch (error) {
+          // The job reports why the iterate failed, even when the rollback fails too
+          try {
+            await restoreRepo(appId, snapshot);
+          } catch (restoreError) {
+            console.error(`[API] Failed to roll back ${appId} after a failed iterate:`, restoreError);
+          }
+          throw error;
         }
 
         statusTracker.addUpdate(jobId, 'deploy', 'Infrastructure deployed successfully', true);
+
+        await appendTurn(appId, {
+          operation: 'iterate',
+          jobId,
+          prompt,
+          spec: verification.spec,
+          commit: verification.commit || commit,
+          previousSpec: manifest.spec,
+        });
+
+        const seed = await loadSeedData(jobId, appId, verification.spec, deployment, credentials, manifest.region);
+
         statusTracker.addUpdate(jobId, 'finalize', 'Finalizing deployment', false);
 
-        // Update manifest
-        const manifestPath = path.join(WORK_DIR, appId, '.vibe', 'manifest.json');
-        const manifest: AppManifest = await readJson(manifestPath);
-        manifest.deployments.dev = deployment;
-        manifest.updatedAt = new Date().toISOString();
-        await writeJson(manifestPath, manifest);
+        // Re-read: updateRepo rewrote the manifest with the revised spec
+        const updatedManifest: AppManifest = await readJson(manifestPath);
+        updatedManifest.deployments.dev = deployment;
+        updatedManifest.usage = await usageTracker.appTotals(appId);
+        updatedManifest.modelCalls = usageTracker.currentCalls();
+        updatedManifest.updatedAt = new Date().toISOString();
+        await writeJson(manifestPath, updatedManifest);
 
-        const response: GenerateResponse = {
+        const response: IterateResponse = {
           appId,
-          spec,
+          spec: verification.spec,
           previewUrl: deployment.previewUrl || '',
           stackName: deployment.stackName,
           outputs: deployment.outputs,
+          commit: verification.commit || commit,
+          changedFiles: [...new Set([...changedFiles, ...verification.changedFiles])],
+          lint,
+          safety: [...promptSafety, ...verification.safety],
+          tests,
+          seed,
+          usage: usageTracker.current(),
+          modelCalls: usageTracker.currentCalls(),
         };
 
-        statusTracker.addUpdate(jobId, 'finalize', 'Deployment complete!', true);
+        statusTracker.addUpdate(jobId, 'finalize', 'Iteration complete!', true);
         statusTracker.completeJob(jobId, response);
         statusTracker.cleanup(jobId);
       } catch (error: any) {
-        console.error('[API] Generate error:', error);
-        const errorMessage = error.name === 'BedrockAccessError'
-          ? `Bedrock access denied: ${error.message}`
-          : error.message;
-        statusTracker.failJob(jobId, errorMessage);
+        console.error('[API] Iterate error:', error);
+        statusTracker.failJob(jobId, jobErrorMessage(error));
         statusTracker.cleanup(jobId);
       }
-    })();
+    });
   } catch (error: any) {
-    console.error('[API] Generate validation error:', error);
+    console.error('[API] Iterate validation error:', error);
     res.status(400).json({
       error: 'Validation failed',
       message: error.message,
@@ -267,12 +904,12 @@ app.post('/api/publish', async (req, res) => {
     }
 
     const manifest: AppManifest = await readJson(manifestPath);
+    if (manifest.status === 'draft') {
+      throw new Error('Build the draft before publishing it');
+    }
 
     // Sanitize app name for CloudFormation
-    const sanitizedAppName = manifest.appName
-      .replace(/[^a-zA-Z0-9-]/g, '-')
-      .replace(/-+/g, '-')
-      .replace(/^-|-$/g, '');
+    const sanitizedAppName = manifestStackName(manifest);
 
     // Get tenant config
     const { externalId } = await getTenantConfig();
@@ -329,6 +966,7 @@ app.get('/api/apps', async (req, res) => {
             appId: manifest.appId,
             appName: manifest.appName,
             blueprint: manifest.blueprint,
+            status: manifest.status || 'built',
             devUrl: manifest.deployments.dev?.previewUrl,
             prodUrl: manifest.deployments.prod?.prodUrl,
             createdAt: manifest.createdAt,
@@ -344,6 +982,23 @@ app.get('/api/apps', async (req, res) => {
   }
 });
 
+/**
+ * Bedrock usage and estimated cost, broken down per app, day and model
+ */
+app.get('/api/usage', async (req, res) => {
+  try {
+    const filter = validateRequest(usageQuerySchema, req.query);
+    const response: UsageResponse = await usageTracker.summarize(filter);
+    res.json(response);
+  } catch (error: any) {
+    console.error('[API] Usage error:', error);
+    res.status(400).json({
+      error: 'Validation failed',
+      message: error.message,
+    });
+  }
+});
+
 /**
  * Destroy stack
  */
@@ -361,10 +1016,7 @@ app.post('/api/destroy', async (req, res) => {
     const manifest: AppManifest = await readJson(manifestPath);
 
     // Sanitize app name for CloudFormation
-    const sanitizedAppName = manifest.appName
-      .replace(/[^a-zA-Z0-9-]/g, '-')
-      .replace(/-+/g, '-')
-      .replace(/^-|-$/g, '');
+    const sanitizedAppName = manifestStackName(manifest);
 
     // Get tenant config
     const { externalId } = await getTenantConfig();
@@ -401,6 +1053,237 @@ app.post('/api/destroy', async (req, res) => {
   }
 });
 
+/**
+ * Render, verify and deploy a generated spec as a new dev stack, reporting progress on the job
+ */
+async function buildApp(
+  jobId: string,
+  appId: string,
+  spec: AppSpec,
+  accountId: string,
+  region: string,
+  sanitizedAppName: string,
+  externalId: string,
+  credentials: AssumedCredentials,
+  turn: { operation: ConversationOperation; prompt?: string },
+  allowModelFixes = true
+): Promise<GenerateResponse> {
+  const linted = lintJobSpec(jobId, spec);
+
+  statusTracker.addUpdate(jobId, 'scaffold', 'Writing generated code and infrastructure files', false);
+
+  // Render repository with sanitized app name
+  console.log(`[API] Rendering repository for: ${sanitizedAppName}`);
+  const repoPath = await renderRepo(appId, linted.spec, accountId, region, sanitizedAppName, turn.prompt);
+
+  statusTracker.addUpdate(jobId, 'scaffold', 'Repository scaffolded successfully', true);
+  statusTracker.addUpdate(jobId, 'verify', 'Checking that generated code compiles', false);
+
+  const verification = await verifyGeneratedCode(appId, linted.spec, credentials, (step, message) => {
+    statusTracker.addUpdate(jobId, step, message, false);
+  }, allowModelFixes);
+
+  statusTracker.addUpdate(jobId, 'verify', verification.fixRounds > 0
+    ? `Generated code compiles after ${verification.fixRounds} fix rounds`
+    : 'Generated code compiles', true);
+
+  await appendTurn(appId, {
+    ...turn,
+    jobId,
+    spec: verification.spec,
+    commit: verification.commit || await headCommit(repoPath),
+  });
+
+  const tests = await runTestGate(jobId, appId, verification.spec.blueprint);
+
+  statusTracker.addUpdate(jobId, 'deploy', 'Deploying infrastructure to AWS (this may take 3-5 minutes)', false);
+
+  // Deploy dev stack
+  console.log(`[API] Deploying dev stack for: ${sanitizedAppName}`);
+  const deployment = await deployCdkStack(
+    appId,
+    sanitizedAppName,
+    accountId,
+    region,
+    Environment.DEV,
+    externalId,
+    (step, message) => {
+      statusTracker.addUpdate(jobId, step, message, false);
+    }
+  );
+
+  if (deployment.status === 'failed') {
+    throw new Error(deployment.error || 'Deployment failed');
+  }
+
+  statusTracker.addUpdate(jobId, 'deploy', 'Infrastructure deployed successfully', true);
+
+  const seed = await loadSeedData(jobId, appId, verification.spec, deployment, credentials, region);
+
+  statusTracker.addUpdate(jobId, 'finalize', 'Finalizing deployment', false);
+
+  // Update manifest
+  const manifestPath = path.join(WORK_DIR, appId, '.vibe', 'manifest.json');
+  const manifest: AppManifest = await readJson(manifestPath);
+  manifest.deployments.dev = deployment;
+  manifest.usage = await usageTracker.appTotals(appId);
+  manifest.modelCalls = usageTracker.currentCalls();
+  manifest.updatedAt = new Date().toISOString();
+  await writeJson(manifestPath, manifest);
+
+  statusTracker.addUpdate(jobId, 'finalize', 'Deployment complete!', true);
+
+  return {
+    appId,
+    spec: verification.spec,
+    previewUrl: deployment.previewUrl || '',
+    stackName: deployment.stackName,
+    outputs: deployment.outputs,
+    lint: linted.lint,
+    safety: verification.safety,
+    tests,
+    seed,
+    usage: usageTracker.current(),
+    modelCalls: usageTracker.currentCalls(),
+  };
+}
+
+/**
+ * Lint a spec before it is saved or built, applying auto-fixes and listing the
+ * findings on the job. Errors the linter can't fix fail the job.
+ */
+function lintJobSpec(jobId: string, input: AppSpec): { spec: AppSpec; lint: LintFinding[] } {
+  statusTracker.addUpdate(jobId, 'lint', 'Checking spec consistency', false);
+  const { spec, findings } = lintSpec(input);
+
+  const errors = lintErrors(findings);
+  if (errors.length > 0) {
+    statusTracker.addUpdate(jobId, 'lint', `Spec has ${errors.length} lint error(s):\n${errors.map(formatFinding).join('\n')}`, false);
+    throw new SpecLintError(errors);
+  }
+
+  statusTracker.addUpdate(jobId, 'lint', findings.length > 0
+    ? `Spec checked with ${findings.length} finding(s):\n${findings.map(formatFinding).join('\n')}`
+    : 'Spec checked, no findings', true);
+  return { spec, lint: findings };
+}
+
+/**
+ * Screen a user prompt before any model sees it, listing findings on the job.
+ * Findings that block under SAFETY_MODE fail the job.
+ */
+async function screenJobPrompt(jobId: string, prompt: string, credentials: AssumedCredentials): Promise<SafetyFinding[]> {
+  if (safetyMode() === 'off') return [];
+
+  statusTracker.addUpdate(jobId, 'safety-prompt', 'Screening prompt', false);
+  const findings = await screenPrompt(prompt, credentials);
+
+  const blocking = blockingFindings(findings);
+  if (blocking.length > 0) {
+    throw new SafetyError(blocking, `Prompt blocked by safety screening:\n${blocking.map(formatSafetyFinding).join('\n')}`);
+  }
+
+  statusTracker.addUpdate(jobId, 'safety-prompt', findings.length > 0
+    ? `Prompt screened with ${findings.length} warning(s):\n${findings.map(formatSafetyFinding).join('\n')}`
+    : 'Prompt screened', true);
+  return findings;
+}
+
+/**
+ * Run the generated tests before a dev deploy. Failing test names are listed
+ * on the job; with TEST_GATE=block they also stop the deploy.
+ */
+async function runTestGate(jobId: string, appId: string, blueprint: string): Promise<TestSummary | undefined> {
+  const mode = testGateMode();
+  if (mode === 'off') return undefined;
+
+  statusTracker.addUpdate(jobId, 'test', 'Running generated tests', false);
+  const tests = await runGeneratedTests(appId, blueprint, (step, message) => {
+    statusTracker.addUpdate(jobId, step, message, false);
+  });
+
+  if (tests.failed === 0) {
+    statusTracker.addUpdate(jobId, 'test', `All ${tests.passed} generated tests passed`, true);
+    return tests;
+  }
+
+  const listed = tests.failures.slice(0, 20).join('\n');
+  if (mode === 'block') {
+    statusTracker.addUpdate(jobId, 'test', `${tests.failed} generated tests failed, deploy blocked:\n${listed}`, false);
+    throw new TestFailureError(tests.failures);
+  }
+
+  statusTracker.addUpdate(jobId, 'test', `${tests.failed} generated tests failed, deploying anyway:\n${listed}`, true);
+  return tests;
+}
+
+/**
+ * Fill empty dev tables with the repo's seed data. The preview is already
+ * deployed, so a failure here is reported on the job instead of failing it.
+ */
+async function loadSeedData(
+  jobId: string,
+  appId: string,
+  spec: AppSpec,
+  deployment: DeploymentResult,
+  credentials: AssumedCredentials,
+  region: string
+): Promise<SeedTableResult[] | undefined> {
+  if ((process.env.SEED_DATA || 'on') === 'off' || spec.dataModel.length === 0) return undefined;
+
+  statusTracker.addUpdate(jobId, 'seed', 'Loading seed data into dev tables', false);
+  try {
+    const results = await seedTables(appId, spec, deployment, credentials, region, 'load', (step, message) => {
+      statusTracker.addUpdate(jobId, step, message, false);
+    });
+    const written = results.reduce((sum, result) => sum + result.written, 0);
+    statusTracker.addUpdate(jobId, 'seed', written > 0 ? `Loaded ${written} seed items` : 'Dev tables already have data', true);
+    return results;
+  } catch (error: any) {
+    console.error('[API] Seed error:', error);
+    statusTracker.addUpdate(jobId, 'seed', `Seed data not loaded: ${error.message}`, true);
+    return undefined;
+  }
+}
+
+/**
+ * Apps are rendered for and deployed to the account and region they were
+ * created in; a request naming others is rejected
+ */
+function targetMismatch(manifest: AppManifest, accountId: string, region: string): string | undefined {
+  if (manifest.accountId === accountId && manifest.region === region) return undefined;
+  return `App ${manifest.appId} belongs to account ${manifest.accountId} in ${manifest.region}, not ${accountId} in ${region}`;
+}
+
+/**
+ * Sanitize app name for CloudFormation (no spaces, special chars)
+ */
+function sanitizeAppName(appName: string): string {
+  return appName
+    .replace(/[^a-zA-Z0-9-]/g, '-')  // Replace invalid chars with hyphen
+    .replace(/-+/g, '-')              // Remove consecutive hyphens
+    .replace(/^-|-$/g, '');           // Remove leading/trailing hyphens
+}
+
+/**
+ * Turn a failed background job's error into the message shown to the user
+ */
+function jobErrorMessage(error: Error): string {
+  if (error.name === 'BedrockAccessError') {
+    return `Bedrock access denied: ${error.message}`;
+  }
+  if (error.name === 'BedrockServiceError') {
+    return `Bedrock unavailable (${(error as BedrockServiceError).kind}) after retries and fallbacks: ${error.message}`;
+  }
+  if (error.name === 'CodeVerificationError') {
+    return `${error.message}\n${(error as CodeVerificationError).errors.join('\n')}`;
+  }
+  if (error.name === 'TestFailureError') {
+    return `${error.message}\n${(error as TestFailureError).failures.join('\n')}`;
+  }
+  return error.message;
+}
+
 // Error handling
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
   console.error('[API] Unhandled error:', err);
@@ -412,6 +1295,14 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
 
 // Initialize and start server
 async function initializeApp() {
+  // A broken blueprint manifest stops the service here instead of failing builds later
+  try {
+    await loadBlueprints();
+  } catch (error: any) {
+    console.error(`[API] ✗ Failed to load blueprints: ${error.message}`);
+    process.exit(1);
+  }
+
   console.log('[API] Initializing AWS connection...');
 
   const result = await ensureStackExists();
@@ -430,6 +1321,9 @@ async function initializeApp() {
     console.log(`[API] Control Plane Account: ${process.env.CONTROL_PLANE_ACCOUNT_ID}`);
     console.log(`[API] Bedrock Region: ${process.env.BEDROCK_REGION}`);
     console.log(`[API] Bedrock Model: ${process.env.BEDROCK_MODEL_ID}`);
+    if (process.env.BEDROCK_FALLBACK_MODELS) {
+      console.log(`[API] Bedrock Fallbacks: ${process.env.BEDROCK_FALLBACK_MODELS}`);
+    }
   });
 }
 
@@ -0,0 +1,114 @@
+import { ContentBlock, ConverseStreamCommand, ImageFormat } from '@aws-sdk/client-bedrock-runtime';
+import { createBedrockClient, createProgressReporter, streamException } from './invokeModel';
+import { claudeCallsTools, claudeFamily, claudeReadsImages, invokeModelFamilies } from './families';
+import { ModelAdapter, ModelCapabilities, ModelProgress, ModelRequest, ModelResponse, ModelTarget, ModelUsage } from './types';
+
+const DEFAULT_MAX_OUTPUT_TOKENS = 4096;
+
+/**
+ * Bedrock Converse API - one request format for every model that supports it,
+ * streamed so output can be reported as it arrives
+ */
+export const converseAdapter: ModelAdapter = {
+  name: 'converse',
+  matches: () => true,
+
+  maxOutputTokens(modelId: string): number {
+    const family = invokeModelFamilies.find((f) => f.matches(modelId));
+    return family ? family.maxOutputTokens(modelId) : DEFAULT_MAX_OUTPUT_TOKENS;
+  },
+
+  capabilities(modelId: string): ModelCapabilities {
+    // Forced tool choice and prefill are only honoured by Anthropic models
+    const anthropic = claudeFamily.matches(modelId);
+    return { tools: claudeCallsTools(modelId), prefill: anthropic, images: claudeReadsImages(modelId) };
+  },
+
+  async invoke(request: ModelRequest, target: ModelTarget, onProgress?: (progress: ModelProgress) => void): Promise<ModelResponse> {
+    const client = createBedrockClient(target);
+
+    const command = new ConverseStreamCommand({
+      modelId: target.modelId,
+      system: request.system ? [{ text: request.system }] : undefined,
+      messages: request.messages.map((message, index) => ({
+        role: message.role,
+        content: [
+          ...(index === 0 && message.role === 'user' ? imageBlocks(request) : []),
+          { text: message.content },
+        ],
+      })),
+      inferenceConfig: {
+        maxTokens: Math.min(request.maxTokens, converseAdapter.maxOutputTokens(target.modelId)),
+        temperature: request.temperature,
+      },
+      toolConfig: request.tool && {
+        tools: [
+          {
+            toolSpec: {
+              name: request.tool.name,
+              description: request.tool.description,
+              inputSchema: { json: request.tool.inputSchema },
+            },
+          },
+        ],
+        toolChoice: { tool: { name: request.tool.name } },
+      },
+    });
+
+    const response = await client.send(command);
+    const report = createProgressReporter(onProgress);
+    let text = '';
+    let toolJson = '';
+    let toolUse = false;
+    let stopReason: string | undefined;
+    let usage: ModelUsage | undefined;
+
+    for await (const event of response.stream || []) {
+      const exception = streamException(event);
+      if (exception) throw exception;
+
+      if (event.contentBlockStart?.start?.toolUse) {
+        toolUse = true;
+      } else if (event.contentBlockDelta?.delta) {
+        const delta = event.contentBlockDelta.delta;
+        const output = delta.text ?? delta.toolUse?.input ?? '';
+        if (delta.toolUse) toolJson += output;
+        else text += output;
+        report(output);
+      } else if (event.messageStop) {
+        stopReason = event.messageStop.stopReason;
+      } else if (event.metadata?.usage) {
+        usage = {
+          inputTokens: event.metadata.usage.inputTokens || 0,
+          outputTokens: event.metadata.usage.outputTokens || 0,
+        };
+      }
+    }
+
+    let toolInput: unknown;
+    if (toolUse) {
+      try {
+        toolInput = JSON.parse(toolJson || '{}');
+      } catch {
+        toolInput = undefined; // cut off mid-call
+      }
+    }
+
+    return {
+      text,
+      toolInput,
+      stopReason,
+      truncated: stopReason === 'max_tokens',
+      usage,
+    };
+  },
+};
+
+function imageBlocks(request: ModelRequest): ContentBlock[] {
+  return (request.images || []).map((image) => ({
+    image: {
+      format: image.mediaType.replace('image/', '') as ImageFormat,
+      source: { bytes: Buffer.from(image.data, 'base64') },
+    },
+  }));
+}
@@ -0,0 +1,66 @@
+import { BedrockErrorKind } from '@aws-vibe/shared';
+
+const UNAVAILABLE_ERRORS = [
+  'ServiceUnavailableException',
+  'InternalServerException',
+  'ModelNotReadyException',
+  'ModelStreamErrorException',
+];
+
+const MODEL_ERROR_PATTERNS = ['model identifier', 'model id', 'inference profile', 'on-demand throughput'];
+
+/**
+ * The fields of an AWS SDK or Node.js error that classification reads
+ */
+interface SdkError {
+  name?: string;
+  message?: string;
+  code?: string;
+  $metadata?: { httpStatusCode?: number };
+}
+
+/**
+ * Classify a failed Bedrock call by the SDK error name and HTTP status,
+ * falling back to the message only where Bedrock reuses an error name
+ */
+export function classifyBedrockError(error: unknown): BedrockErrorKind {
+  const sdkError: SdkError = error || {};
+  const name = sdkError.name || '';
+  const status = sdkError.$metadata?.httpStatusCode;
+  const message = (sdkError.message || '').toLowerCase();
+
+  if (name === 'ThrottlingException' || name === 'TooManyRequestsException' || status === 429) {
+    return 'throttled';
+  }
+  if (name === 'ModelTimeoutException' || name === 'TimeoutError' || name === 'RequestTimeout' || status === 408) {
+    return 'timeout';
+  }
+  if (UNAVAILABLE_ERRORS.includes(name) || (status !== undefined && status >= 500) || sdkError.code === 'ECONNRESET') {
+    return 'unavailable';
+  }
+  if (name === 'AccessDeniedException' || name === 'UnrecognizedClientException' || status === 403) {
+    return 'access';
+  }
+  if (name === 'ResourceNotFoundException') {
+    // First-time Anthropic use is reported as a missing resource
+    return message.includes('use case') ? 'access' : 'model';
+  }
+  if (name === 'ValidationException' && MODEL_ERROR_PATTERNS.some((pattern) => message.includes(pattern))) {
+    return 'model';
+  }
+  return 'other';
+}
+
+/**
+ * Transient failures worth retrying against the same model
+ */
+export function isRetryable(kind: BedrockErrorKind): boolean {
+  return kind === 'throttled' || kind === 'unavailable' || kind === 'timeout';
+}
+
+/**
+ * Failures another model or region might not have
+ */
+export function shouldFallBack(kind: BedrockErrorKind): boolean {
+  return kind !== 'other';
+}
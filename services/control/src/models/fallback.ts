@@ -0,0 +1,64 @@
+import { BedrockErrorKind } from '@aws-vibe/shared';
+import { classifyBedrockError, isRetryable } from './errors';
+
+const MAX_RETRY_DELAY_MS = 20000;
+
+/**
+ * A model ID or cross-region inference profile, and the region to call it in
+ */
+export interface ModelChainEntry {
+  modelId: string;
+  region: string;
+}
+
+/**
+ * The configured model followed by BEDROCK_FALLBACK_MODELS, a comma-separated
+ * list of `modelId` or `modelId@region` entries tried in order
+ */
+export function modelChain(primary: ModelChainEntry): ModelChainEntry[] {
+  const chain = [primary];
+
+  for (const entry of (process.env.BEDROCK_FALLBACK_MODELS || '').split(',')) {
+    const [modelId, region] = entry.trim().split('@');
+    if (!modelId) continue;
+
+    const candidate = { modelId, region: region || primary.region };
+    if (!chain.some((c) => c.modelId === candidate.modelId && c.region === candidate.region)) {
+      chain.push(candidate);
+    }
+  }
+
+  return chain;
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+export function backoffDelay(attempt: number, baseMs: number): number {
+  return Math.round(Math.random() * Math.min(MAX_RETRY_DELAY_MS, baseMs * 2 ** attempt));
+}
+
+/**
+ * Run fn, retrying throttling, availability and timeout errors up to
+ * BEDROCK_MAX_RETRIES times; anything else is thrown straight away
+ */
+export async function withRetries<T>(
+  fn: () => Promise<T>,
+  onRetry?: (attempt: number, delayMs: number, kind: BedrockErrorKind, error: Error) => void
+): Promise<{ result: T; retries: number }> {
+  const maxRetries = parseInt(process.env.BEDROCK_MAX_RETRIES || '3', 10);
+  const baseMs = parseInt(process.env.BEDROCK_RETRY_BASE_MS || '1000', 10);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return { result: await fn(), retries: attempt };
+    } catch (error) {
+      const kind = classifyBedrockError(error);
+      if (!isRetryable(kind) || attempt >= maxRetries) throw error;
+
+      const delayMs = backoffDelay(attempt, baseMs);
+      if (onRetry) onRetry(attempt + 1, delayMs, kind, error as Error);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
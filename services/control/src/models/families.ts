@@ -0,0 +1,249 @@
+import { InvokeModelFamily } from './invokeModel';
+import { ModelRequest, ModelUsage } from './types';
+
+/**
+ * A Messages API stream event; each type fills in some of the fields
+ */
+interface ClaudeStreamChunk {
+  type: string;
+  message?: { usage?: { input_tokens?: number } };
+  content_block?: { type: string };
+  delta?: { type?: string; text?: string; partial_json?: string; stop_reason?: string };
+  usage?: { output_tokens?: number };
+}
+
+/**
+ * Anthropic Claude (Messages API)
+ */
+export const claudeFamily: InvokeModelFamily<ClaudeStreamChunk> = {
+  name: 'anthropic',
+  matches: (modelId) => modelId.includes('anthropic'),
+  // Claude 2, Instant and the original Claude 3 models stop at 4096; 3.5 and later allow 8192 or more
+  maxOutputTokens: (modelId) => (/claude-(v2|instant|3-(haiku|sonnet|opus))/.test(modelId) ? 4096 : 8192),
+  capabilities: (modelId) => ({ tools: claudeCallsTools(modelId), prefill: true, images: claudeReadsImages(modelId) }),
+
+  buildBody: (request) => ({
+    anthropic_version: 'bedrock-2023-05-31',
+    max_tokens: request.maxTokens,
+    temperature: request.temperature,
+    system: request.system,
+    messages: claudeMessages(request),
+    ...(request.tool && {
+      tools: [
+        {
+          name: request.tool.name,
+          description: request.tool.description,
+          input_schema: request.tool.inputSchema,
+        },
+      ],
+      tool_choice: { type: 'tool', name: request.tool.name },
+    }),
+  }),
+
+  createStreamParser: () => {
+    let text = '';
+    let toolJson = '';
+    let toolUse = false;
+    let stopReason: string | undefined;
+    const usage = { inputTokens: 0, outputTokens: 0 };
+
+    return {
+      push(chunk) {
+        switch (chunk.type) {
+          case 'message_start':
+            usage.inputTokens = chunk.message?.usage?.input_tokens || 0;
+            return '';
+          case 'content_block_start':
+            if (chunk.content_block?.type === 'tool_use') toolUse = true;
+            return '';
+          case 'content_block_delta':
+            if (chunk.delta?.type === 'text_delta') {
+              const output = chunk.delta.text || '';
+              text += output;
+              return output;
+            }
+            if (chunk.delta?.type === 'input_json_delta') {
+              const output = chunk.delta.partial_json || '';
+              toolJson += output;
+              return output;
+            }
+            return '';
+          case 'message_delta':
+            stopReason = chunk.delta?.stop_reason;
+            usage.outputTokens = chunk.usage?.output_tokens ?? usage.outputTokens;
+            return '';
+          default:
+            return '';
+        }
+      },
+
+      result() {
+        return {
+          text,
+          toolInput: toolUse ? parseToolJson(toolJson) : undefined,
+          stopReason,
+          truncated: stopReason === 'max_tokens',
+          usage,
+        };
+      },
+    };
+  },
+};
+
+interface TitanStreamChunk {
+  outputText?: string;
+  completionReason?: string;
+  inputTextTokenCount?: number;
+  totalOutputTextTokenCount?: number;
+}
+
+/**
+ * Amazon Titan Text - single prompt string, no chat roles
+ */
+export const titanFamily: InvokeModelFamily<TitanStreamChunk> = {
+  name: 'titan',
+  matches: (modelId) => modelId.includes('amazon.titan'),
+  maxOutputTokens: (modelId) => {
+    if (modelId.includes('premier')) return 3072;
+    if (modelId.includes('lite')) return 4096;
+    return 8192;
+  },
+  capabilities: () => ({ tools: false, prefill: false, images: false }),
+
+  buildBody: (request) => ({
+    inputText: flattenConversation(request),
+    textGenerationConfig: {
+      maxTokenCount: request.maxTokens,
+      temperature: request.temperature,
+      topP: 0.9,
+    },
+  }),
+
+  createStreamParser: () => {
+    let text = '';
+    let stopReason: string | undefined;
+    const usage = { inputTokens: 0, outputTokens: 0 };
+
+    return {
+      push(chunk) {
+        text += chunk.outputText || '';
+        if (chunk.completionReason) stopReason = chunk.completionReason;
+        if (chunk.inputTextTokenCount !== undefined) usage.inputTokens = chunk.inputTextTokenCount;
+        if (chunk.totalOutputTextTokenCount !== undefined) usage.outputTokens = chunk.totalOutputTextTokenCount;
+        return chunk.outputText || '';
+      },
+
+      result() {
+        return { text, stopReason, truncated: stopReason === 'LENGTH', usage };
+      },
+    };
+  },
+};
+
+interface QwenStreamChunk {
+  choices?: { delta?: { content?: string }; finish_reason?: string }[];
+  usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+/**
+ * Qwen - OpenAI Chat Completions format
+ */
+export const qwenFamily: InvokeModelFamily<QwenStreamChunk> = {
+  name: 'qwen',
+  matches: (modelId) => modelId.includes('qwen'),
+  maxOutputTokens: () => 8192,
+  capabilities: () => ({ tools: false, prefill: false, images: false }),
+
+  buildBody: (request) => ({
+    messages: [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      ...request.messages,
+    ],
+    max_tokens: request.maxTokens,
+    temperature: request.temperature,
+    top_p: 0.9,
+  }),
+
+  createStreamParser: () => {
+    let text = '';
+    let stopReason: string | undefined;
+    let usage: ModelUsage | undefined;
+
+    return {
+      push(chunk) {
+        const choice = chunk.choices?.[0];
+        const delta: string = choice?.delta?.content || '';
+        text += delta;
+        if (choice?.finish_reason) stopReason = choice.finish_reason;
+        if (chunk.usage) {
+          usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+        }
+        return delta;
+      },
+
+      result() {
+        return { text, stopReason, truncated: stopReason === 'length', usage };
+      },
+    };
+  },
+};
+
+export const invokeModelFamilies: InvokeModelFamily[] = [claudeFamily, titanFamily, qwenFamily];
+
+// Claude 2 and Instant predate tool use and image input
+const TEXT_ONLY_CLAUDE = /claude-(v2|instant)/;
+
+/**
+ * Claude 3 and later read images; Claude 2 and Instant are text only
+ */
+export function claudeReadsImages(modelId: string): boolean {
+  return claudeFamily.matches(modelId) && !TEXT_ONLY_CLAUDE.test(modelId);
+}
+
+/**
+ * Claude 3 and later take forced tool calls; Claude 2 and Instant reject
+ * tools, so their requests take the JSON text path
+ */
+export function claudeCallsTools(modelId: string): boolean {
+  return claudeFamily.matches(modelId) && !TEXT_ONLY_CLAUDE.test(modelId);
+}
+
+/**
+ * Images go in front of the text of the first user message
+ */
+function claudeMessages(request: ModelRequest): unknown[] {
+  const images = request.images || [];
+  const first = request.messages.findIndex((message) => message.role === 'user');
+  if (images.length === 0 || first < 0) return request.messages;
+
+  return request.messages.map((message, index) => index !== first ? message : {
+    role: message.role,
+    content: [
+      ...images.map((image) => ({
+        type: 'image',
+        source: { type: 'base64', media_type: image.mediaType, data: image.data },
+      })),
+      { type: 'text', text: message.content },
+    ],
+  });
+}
+
+function flattenConversation(request: ModelRequest): string {
+  const turns = request.messages.map(
+    (message) => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`
+  );
+  const prompt = [...turns, 'Assistant:'].join('\n\n');
+  return request.system ? `${request.system}\n\n${prompt}` : prompt;
+}
+
+/**
+ * Tool input arrives as JSON fragments; a cut-off call leaves it unparseable
+ */
+function parseToolJson(json: string): unknown {
+  if (!json) return {};
+  try {
+    return JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,97 @@
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { readJson, writeJson, exists } from '../util/fsx';
+import { claudeCallsTools, claudeFamily, claudeReadsImages } from './families';
+import { ModelAdapter, ModelProgress, ModelRequest, ModelResponse, ModelTarget } from './types';
+
+const FIXTURE_MAX_OUTPUT_TOKENS = 8192;
+
+/**
+ * A recorded model exchange, stored as <key>.json
+ */
+export interface ModelFixture {
+  key: string;
+  modelId: string;
+  recordedAt: string;
+  request: ModelRequest;
+  response: ModelResponse;
+}
+
+function fixturesDir(): string {
+  return process.env.MODEL_FIXTURES_DIR || '/data/fixtures';
+}
+
+/**
+ * Fixtures are keyed on the prompt content only, so token limits and
+ * temperature can change without invalidating recordings
+ */
+export function fixtureKey(request: ModelRequest): string {
+  return crypto
+    .createHash('sha256')
+    .update(
+      JSON.stringify({
+        system: request.system || '',
+        messages: request.messages,
+        tool: request.tool?.name || null,
+        // Only present when set, so fixtures recorded without images keep their keys
+        ...(request.images && { images: request.images.map((image) => image.data) }),
+      })
+    )
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Deterministic local adapter that replays recorded responses without calling AWS
+ */
+export const fixtureAdapter: ModelAdapter = {
+  name: 'fixture',
+  matches: () => false, // only used when selected explicitly
+  maxOutputTokens: () => FIXTURE_MAX_OUTPUT_TOKENS,
+  // Mirror the live adapter so replayed requests have the same shape as recorded ones
+  capabilities: (modelId) => {
+    const anthropic = claudeFamily.matches(modelId);
+    return { tools: claudeCallsTools(modelId), prefill: anthropic, images: claudeReadsImages(modelId) };
+  },
+
+  async invoke(request: ModelRequest): Promise<ModelResponse> {
+    const key = fixtureKey(request);
+    const fixturePath = path.join(fixturesDir(), `${key}.json`);
+
+    if (!(await exists(fixturePath))) {
+      throw new Error(
+        `No recorded model response for request ${key} in ${fixturesDir()}. Record one by running against Bedrock with MODEL_RECORD_DIR set.`
+      );
+    }
+
+    const fixture = await readJson<ModelFixture>(fixturePath);
+    console.log(`[Models] Replaying fixture ${key}`);
+    return fixture.response;
+  },
+};
+
+/**
+ * Wrap an adapter so every exchange is saved as a fixture
+ */
+export function withRecording(adapter: ModelAdapter, recordDir: string): ModelAdapter {
+  return {
+    ...adapter,
+
+    async invoke(request: ModelRequest, target: ModelTarget, onProgress?: (progress: ModelProgress) => void): Promise<ModelResponse> {
+      const response = await adapter.invoke(request, target, onProgress);
+      const key = fixtureKey(request);
+
+      const fixture: ModelFixture = {
+        key,
+        modelId: target.modelId,
+        recordedAt: new Date().toISOString(),
+        request,
+        response,
+      };
+      await writeJson(path.join(recordDir, `${key}.json`), fixture);
+      console.log(`[Models] Recorded fixture ${key}`);
+
+      return response;
+    },
+  };
+}
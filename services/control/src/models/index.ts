@@ -0,0 +1,56 @@
+import { createInvokeModelAdapter } from './invokeModel';
+import { invokeModelFamilies } from './families';
+import { converseAdapter } from './converse';
+import { fixtureAdapter, withRecording } from './fixture';
+import { localAdapter } from './local';
+import { ModelAdapter } from './types';
+
+export * from './types';
+export * from './errors';
+export * from './fallback';
+
+/**
+ * Model adapter registry.
+ *
+ * MODEL_ADAPTER selects an adapter by name; the default "auto" picks the first
+ * registered adapter that matches the model ID. Native InvokeModel families are
+ * registered first, with Converse as the catch-all for any other model.
+ */
+const adapters = new Map<string, ModelAdapter>();
+
+export function registerModelAdapter(adapter: ModelAdapter): void {
+  adapters.set(adapter.name, adapter);
+}
+
+export function listModelAdapters(): string[] {
+  return Array.from(adapters.keys());
+}
+
+export function getModelAdapter(modelId: string): ModelAdapter {
+  const selected = process.env.MODEL_ADAPTER || 'auto';
+
+  let adapter: ModelAdapter | undefined;
+  if (selected === 'auto') {
+    adapter = Array.from(adapters.values()).find((a) => a.matches(modelId));
+  } else {
+    adapter = adapters.get(selected);
+  }
+
+  if (!adapter) {
+    throw new Error(
+      selected === 'auto'
+        ? `Unsupported model: ${modelId}`
+        : `Unknown model adapter: ${selected} (available: ${listModelAdapters().join(', ')})`
+    );
+  }
+
+  const recordDir = process.env.MODEL_RECORD_DIR;
+  return recordDir ? withRecording(adapter, recordDir) : adapter;
+}
+
+for (const family of invokeModelFamilies) {
+  registerModelAdapter(createInvokeModelAdapter(family));
+}
+registerModelAdapter(converseAdapter);
+registerModelAdapter(fixtureAdapter);
+registerModelAdapter(localAdapter);
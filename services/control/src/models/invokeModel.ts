@@ -0,0 +1,120 @@
+import {
+  BedrockRuntimeClient,
+  InvokeModelWithResponseStreamCommand,
+} from '@aws-sdk/client-bedrock-runtime';
+import { ModelAdapter, ModelCapabilities, ModelProgress, ModelRequest, ModelResponse, ModelTarget } from './types';
+
+/**
+ * Accumulates one streamed response from its decoded chunks
+ */
+export interface ModelStreamParser<Chunk = object> {
+  /** Consume a chunk and return the output text (or tool input JSON) it added */
+  push(chunk: Chunk): string;
+  result(): ModelResponse;
+}
+
+/**
+ * A model family reached through the native InvokeModel API, where each
+ * provider has its own request body and stream chunk format
+ */
+export interface InvokeModelFamily<Chunk = object> {
+  name: string;
+  matches(modelId: string): boolean;
+  maxOutputTokens(modelId: string): number;
+  capabilities(modelId: string): ModelCapabilities;
+  buildBody(request: ModelRequest): Record<string, unknown>;
+  createStreamParser(): ModelStreamParser<Chunk>;
+}
+
+/**
+ * Token counts Bedrock adds to the final chunk of every family's stream
+ */
+interface InvocationMetricsChunk {
+  'amazon-bedrock-invocationMetrics'?: { inputTokenCount: number; outputTokenCount: number };
+}
+
+export function createBedrockClient(target: ModelTarget): BedrockRuntimeClient {
+  return new BedrockRuntimeClient({
+    region: target.region,
+    credentials: {
+      accessKeyId: target.credentials.accessKeyId,
+      secretAccessKey: target.credentials.secretAccessKey,
+      sessionToken: target.credentials.sessionToken,
+    },
+  });
+}
+
+/**
+ * Turn streamed output into progress callbacks
+ */
+export function createProgressReporter(onProgress?: (progress: ModelProgress) => void): (output: string) => void {
+  const startedAt = Date.now();
+  let outputChars = 0;
+
+  return (output) => {
+    if (!onProgress || !output) return;
+    outputChars += output.length;
+    onProgress({
+      outputChars,
+      outputTokens: Math.ceil(outputChars / 4),
+      elapsedMs: Date.now() - startedAt,
+    });
+  };
+}
+
+/**
+ * The exception carried by a stream event, if it is an error event
+ */
+export function streamException(event: object): Error | undefined {
+  const members = event as Record<string, { message?: string } | undefined>;
+  const key = Object.keys(members).find((name) => name.endsWith('Exception') && members[name]);
+  if (!key) return undefined;
+
+  const error = new Error(members[key]?.message || key);
+  error.name = key.charAt(0).toUpperCase() + key.slice(1);
+  return error;
+}
+
+export function createInvokeModelAdapter<Chunk>(family: InvokeModelFamily<Chunk>): ModelAdapter {
+  return {
+    name: family.name,
+    matches: family.matches,
+    maxOutputTokens: family.maxOutputTokens,
+    capabilities: family.capabilities,
+
+    async invoke(request: ModelRequest, target: ModelTarget, onProgress?: (progress: ModelProgress) => void): Promise<ModelResponse> {
+      const client = createBedrockClient(target);
+      const maxTokens = Math.min(request.maxTokens, family.maxOutputTokens(target.modelId));
+
+      const command = new InvokeModelWithResponseStreamCommand({
+        modelId: target.modelId,
+        contentType: 'application/json',
+        accept: 'application/json',
+        body: JSON.stringify(family.buildBody({ ...request, maxTokens })),
+      });
+
+      const response = await client.send(command);
+      const parser = family.createStreamParser();
+      const report = createProgressReporter(onProgress);
+      const decoder = new TextDecoder();
+      let metrics: { inputTokenCount: number; outputTokenCount: number } | undefined;
+
+      for await (const event of response.body || []) {
+        const exception = streamException(event);
+        if (exception) throw exception;
+        if (!event.chunk?.bytes) continue;
+
+        const chunk: Chunk & InvocationMetricsChunk = JSON.parse(decoder.decode(event.chunk.bytes));
+        metrics = chunk['amazon-bedrock-invocationMetrics'] || metrics;
+        report(parser.push(chunk));
+      }
+
+      const result = parser.result();
+
+      // Bedrock's own count on the final chunk is authoritative for every family
+      return metrics
+        ? { ...result, usage: { inputTokens: metrics.inputTokenCount, outputTokens: metrics.outputTokenCount } }
+        : result;
+    },
+  };
+}
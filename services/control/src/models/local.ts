@@ -0,0 +1,51 @@
+import { ModelAdapter, ModelRequest, ModelResponse, ModelTarget } from './types';
+
+interface ChatCompletionResponse {
+  choices: { message: { content: string | null }; finish_reason?: string }[];
+  usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+/**
+ * A local stand-in model behind an OpenAI-compatible chat completions API
+ * (Ollama, llama.cpp server, vLLM). LOCAL_MODEL_URL is the API base and
+ * LOCAL_MODEL_NAME the model to ask for, defaulting to the configured model ID.
+ */
+export const localAdapter: ModelAdapter = {
+  name: 'local',
+  matches: () => false, // only used when selected explicitly
+  maxOutputTokens: () => parseInt(process.env.LOCAL_MODEL_MAX_TOKENS || '4096', 10),
+  capabilities: () => ({ tools: false, prefill: false, images: false }),
+
+  async invoke(request: ModelRequest, target: ModelTarget): Promise<ModelResponse> {
+    const baseUrl = (process.env.LOCAL_MODEL_URL || 'http://localhost:11434/v1').replace(/\/+$/, '');
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: process.env.LOCAL_MODEL_NAME || target.modelId,
+        messages: [
+          ...(request.system ? [{ role: 'system', content: request.system }] : []),
+          ...request.messages,
+        ],
+        max_tokens: Math.min(request.maxTokens, localAdapter.maxOutputTokens(target.modelId)),
+        temperature: request.temperature,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Local model returned ${response.status}: ${await response.text()}`);
+    }
+
+    const body = (await response.json()) as ChatCompletionResponse;
+    return {
+      text: body.choices[0].message.content || '',
+      stopReason: body.choices[0].finish_reason,
+      truncated: body.choices[0].finish_reason === 'length',
+      usage: body.usage && {
+        inputTokens: body.usage.prompt_tokens,
+        outputTokens: body.usage.completion_tokens,
+      },
+    };
+  },
+};
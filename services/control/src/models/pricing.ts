@@ -0,0 +1,63 @@
+import { ModelUsage } from './types';
+
+/**
+ * On-demand Bedrock prices in USD per million tokens. The first entry whose
+ * key appears in the model ID wins, so more specific keys come first.
+ * MODEL_PRICES (JSON, same shape) is checked before the built-in table.
+ */
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'titan-text-premier': { input: 0.5, output: 1.5 },
+  'titan-text-express': { input: 0.2, output: 0.6 },
+  'titan-text-lite': { input: 0.15, output: 0.2 },
+  'qwen': { input: 0.15, output: 0.6 },
+};
+
+const warnedModels = new Set<string>();
+
+function configuredPrices(): Record<string, ModelPrice> {
+  if (!process.env.MODEL_PRICES) return {};
+
+  try {
+    return JSON.parse(process.env.MODEL_PRICES);
+  } catch (error) {
+    console.warn(`[Pricing] Ignoring invalid MODEL_PRICES: ${(error as Error).message}`);
+    return {};
+  }
+}
+
+export function getModelPrice(modelId: string): ModelPrice | undefined {
+  for (const prices of [configuredPrices(), DEFAULT_PRICES]) {
+    const key = Object.keys(prices).find((candidate) => modelId.includes(candidate));
+    if (key) return prices[key];
+  }
+  return undefined;
+}
+
+/**
+ * Estimated cost in USD of one call; 0 for models without a known price
+ */
+export function estimateCost(modelId: string, usage: ModelUsage): number {
+  const price = getModelPrice(modelId);
+
+  if (!price) {
+    if (!warnedModels.has(modelId)) {
+      warnedModels.add(modelId);
+      console.warn(`[Pricing] No price for ${modelId}; set MODEL_PRICES to estimate its cost`);
+    }
+    return 0;
+  }
+
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
@@ -0,0 +1,90 @@
+import { AssumedCredentials } from '../util/aws';
+
+/**
+ * Model-agnostic request and response shapes shared by every adapter
+ */
+
+export interface ModelMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+/**
+ * A tool the model is forced to call, used to get structured output that
+ * matches inputSchema instead of free-form JSON text
+ */
+export interface ModelTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, JsonValue>;
+}
+
+/**
+ * A base64-encoded image shown to the model with the first user message
+ */
+export interface ModelImage {
+  mediaType: string;
+  data: string;
+}
+
+export interface ModelRequest {
+  system?: string;
+  messages: ModelMessage[];
+  maxTokens: number;
+  temperature?: number;
+  tool?: ModelTool;
+  images?: ModelImage[];
+}
+
+export interface ModelUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ModelResponse {
+  text: string;
+  toolInput?: unknown;
+  stopReason?: string;
+  /** The model stopped because it hit the output token limit */
+  truncated: boolean;
+  /** Token counts billed for this call, when the model reports them */
+  usage?: ModelUsage;
+}
+
+/**
+ * Running totals for a streaming call, reported as output arrives
+ */
+export interface ModelProgress {
+  outputChars: number;
+  /** Estimated from characters; the exact count is only known when the call ends */
+  outputTokens: number;
+  elapsedMs: number;
+}
+
+export interface ModelCapabilities {
+  /** Forced tool calls for structured output */
+  tools: boolean;
+  /** A trailing assistant message is continued rather than answered */
+  prefill: boolean;
+  /** Image content alongside the text of a user message */
+  images: boolean;
+}
+
+/**
+ * Where and as whom a request is sent
+ */
+export interface ModelTarget {
+  modelId: string;
+  region: string;
+  credentials: AssumedCredentials;
+}
+
+export interface ModelAdapter {
+  name: string;
+  matches(modelId: string): boolean;
+  maxOutputTokens(modelId: string): number;
+  capabilities(modelId: string): ModelCapabilities;
+  invoke(request: ModelRequest, target: ModelTarget, onProgress?: (progress: ModelProgress) => void): Promise<ModelResponse>;
+}
@@ -0,0 +1,32 @@
+import { PromptSet } from './types';
+import { v1Prompts } from './v1';
+
+export * from './types';
+
+export const DEFAULT_PROMPT_VERSION = 'v1';
+
+/**
+ * Prompt version registry.
+ *
+ * PROMPT_VERSION selects the prompts used for generation; it is read on every
+ * call so the eval command can switch versions between runs.
+ */
+const versions = new Map<string, PromptSet>();
+
+export function registerPromptVersion(prompts: PromptSet): void {
+  versions.set(prompts.version, prompts);
+}
+
+export function listPromptVersions(): string[] {
+  return Array.from(versions.keys());
+}
+
+export function getPrompts(version: string = process.env.PROMPT_VERSION || DEFAULT_PROMPT_VERSION): PromptSet {
+  const prompts = versions.get(version);
+  if (!prompts) {
+    throw new Error(`Unknown prompt version: ${version} (available: ${listPromptVersions().join(', ')})`);
+  }
+  return prompts;
+}
+
+registerPromptVersion(v1Prompts);
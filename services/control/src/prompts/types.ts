@@ -0,0 +1,14 @@
+/**
+ * System prompts for every generation step, versioned together so a change
+ * can be evaluated against the version it replaces
+ */
+export interface PromptSet {
+  version: string;
+  description: string;
+  specSystem(blueprint: string): string;
+  refineSystem(blueprint: string): string;
+  planSystem(): string;
+  componentSystem(): string;
+  componentTestSystem(): string;
+  handlerSystem(): string;
+}
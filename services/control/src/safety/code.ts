@@ -0,0 +1,176 @@
+import * as path from 'path';
+import { AppSpec, SafetyAction, SafetyFinding } from '@aws-vibe/shared';
+import { codeFilePath, componentTestPath } from '../bedrock';
+import { exists, readFile } from '../util/fsx';
+import { ruleAction } from './policy';
+
+interface LineRule {
+  id: string;
+  action: SafetyAction;
+  message: string;
+  test: (line: string) => boolean;
+}
+
+const PROJECTS = ['web', 'api', 'infra'];
+
+// Lifecycle scripts npm runs by itself during install
+const INSTALL_HOOKS = ['preinstall', 'install', 'postinstall', 'prepare', 'preprepare', 'postprepare', 'prepublish', 'prepack', 'postpack'];
+
+// Commands the blueprints' package.json scripts are made of
+const SCRIPT_COMMANDS = ['tsc', 'jest', 'next', 'cdk', 'ts-node-dev', 'node'];
+
+// Hosts generated code may call besides the app's own API, which it reaches through AWS domains
+const DEFAULT_ALLOWED_HOSTS = ['localhost', '127.0.0.1', '.amazonaws.com', '.amazoncognito.com', '.cloudfront.net'];
+
+const OUTBOUND_CALL = /\b(fetch|axios(\.\w+)?|\.open|WebSocket|EventSource|sendBeacon|import)\s*\(\s*['"`]((https?|wss?):\/\/[^'"`\s/]+)/;
+
+/**
+ * Checks run on every line of model-written source
+ */
+const LINE_RULES: LineRule[] = [
+  {
+    id: 'eval',
+    action: 'block',
+    message: 'Evaluates code at runtime',
+    test: (line) => /\beval\s*\(|\bnew\s+Function\s*\(|\bset(Timeout|Interval)\s*\(\s*['"`]|(from|require\()\s*['"](node:)?vm['"]|\bprocess\.binding\s*\(/.test(line),
+  },
+  {
+    id: 'child-process',
+    action: 'block',
+    message: 'Starts child processes',
+    test: (line) => /['"](node:)?child_process['"]|\b(execSync|spawnSync|execFile)\s*\(/.test(line),
+  },
+  {
+    id: 'hardcoded-credential',
+    action: 'block',
+    message: 'Contains a hard-coded AWS key or private key',
+    test: (line) => /\b(AKIA|ASIA)[0-9A-Z]{16}\b|-----BEGIN ([A-Z]+ )?PRIVATE KEY-----|aws_secret_access_key\s*[:=]/i.test(line),
+  },
+  {
+    id: 'hardcoded-secret',
+    action: 'warn',
+    message: 'Looks like a hard-coded password, token or API key',
+    test: (line) => {
+      const match = line.match(/(password|passwd|secret|api[_-]?key|access[_-]?token|auth[_-]?token|client[_-]?secret)['"]?\s*[:=]\s*['"]([^'"\s]{8,})['"]/i);
+      return Boolean(match && !/your|example|placeholder|changeme|xxx|\*\*\*|<.+>/i.test(match[2]));
+    },
+  },
+  {
+    id: 'outbound-host',
+    action: 'block',
+    message: 'Calls a host outside SAFETY_ALLOWED_HOSTS',
+    test: (line) => {
+      const match = line.match(OUTBOUND_CALL);
+      return Boolean(match && !hostAllowed(match[3].replace(/^\w+:\/\//, '').split(':')[0].toLowerCase()));
+    },
+  },
+  {
+    id: 'dangerous-html',
+    action: 'warn',
+    message: 'Writes raw HTML into the page',
+    test: (line) => /dangerouslySetInnerHTML|\.(inner|outer)HTML\s*=|document\.write\s*\(/.test(line),
+  },
+];
+
+/**
+ * Scan the model-written files of a spec line by line, and the package.json
+ * files of the rendered repo for install hooks, unexpected script commands and
+ * dependencies fetched from outside the npm registry
+ */
+export async function screenGeneratedCode(repoPath: string, spec: AppSpec): Promise<SafetyFinding[]> {
+  const findings: SafetyFinding[] = [];
+
+  for (const [file, source] of modelWrittenFiles(spec)) {
+    findings.push(...screenSource(file, source));
+  }
+  for (const project of PROJECTS) {
+    findings.push(...(await screenPackage(repoPath, project)));
+  }
+
+  if (findings.length > 0) {
+    console.warn(`[Safety] Code findings: ${findings.map((finding) => `${finding.rule} in ${finding.file}`).join(', ')}`);
+  }
+  return findings;
+}
+
+function screenSource(file: string, source: string): SafetyFinding[] {
+  const rules = LINE_RULES
+    .map((rule) => ({ rule, action: ruleAction(rule.id, rule.action) }))
+    .filter((entry): entry is { rule: LineRule; action: SafetyAction } => entry.action !== undefined);
+
+  const findings: SafetyFinding[] = [];
+  source.split('\n').forEach((line, i) => {
+    if (/^\s*(\/\/|\/\*|\*)/.test(line)) return;
+    for (const { rule, action } of rules) {
+      if (rule.test(line)) findings.push({ rule: rule.id, action, message: rule.message, file, line: i + 1 });
+    }
+  });
+  return findings;
+}
+
+async function screenPackage(repoPath: string, project: string): Promise<SafetyFinding[]> {
+  const file = path.join(project, 'package.json');
+  const fullPath = path.join(repoPath, file);
+  if (!(await exists(fullPath))) return [];
+
+  const findings: SafetyFinding[] = [];
+  const scriptsAction = ruleAction('package-scripts', 'block');
+  const sourceAction = ruleAction('package-source', 'block');
+  const pkg = JSON.parse(await readFile(fullPath));
+
+  if (scriptsAction) {
+    for (const [name, command] of Object.entries<string>(pkg.scripts || {})) {
+      if (INSTALL_HOOKS.includes(name)) {
+        findings.push({ rule: 'package-scripts', action: scriptsAction, message: `Install hook "${name}": ${command}`, file });
+      } else if (!knownScript(command)) {
+        findings.push({ rule: 'package-scripts', action: scriptsAction, message: `Script "${name}" runs an unexpected command: ${command}`, file });
+      }
+    }
+  }
+
+  if (sourceAction) {
+    for (const field of ['dependencies', 'devDependencies', 'optionalDependencies', 'peerDependencies']) {
+      for (const [name, version] of Object.entries<string>(pkg[field] || {})) {
+        if (/^(git|https?|file|link|github|gitlab|bitbucket)[:+]|^[\w.-]+\/[\w.-]+(#.*)?$/.test(version)) {
+          findings.push({ rule: 'package-source', action: sourceAction, message: `${name} is installed from ${version} instead of the npm registry`, file });
+        }
+      }
+    }
+    if (await exists(path.join(repoPath, project, '.npmrc'))) {
+      findings.push({ rule: 'package-source', action: sourceAction, message: '.npmrc can point installs at another registry', file: path.join(project, '.npmrc') });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Scripts may chain blueprint commands with &&, but nothing else the shell interprets
+ */
+function knownScript(command: string): boolean {
+  if (/[;|`<>]|\$\(/.test(command)) return false;
+  return command.split('&&').every((part) => SCRIPT_COMMANDS.includes(part.trim().split(/\s+/)[0]));
+}
+
+function hostAllowed(hostname: string): boolean {
+  const extra = (process.env.SAFETY_ALLOWED_HOSTS || '').split(',').map((host) => host.trim().replace(/^\*/, '')).filter(Boolean);
+  return [...DEFAULT_ALLOWED_HOSTS, ...extra].some((allowed) =>
+    allowed.startsWith('.') ? hostname.endsWith(allowed) || hostname === allowed.slice(1) : hostname === allowed
+  );
+}
+
+/**
+ * Repo-relative path and content of every file written from model output
+ */
+function modelWrittenFiles(spec: AppSpec): Array<[string, string]> {
+  const code = spec.generatedCode;
+  if (!code) return [];
+
+  return [
+    ...Object.entries(code.lib).map(([name, source]): [string, string] => [codeFilePath({ kind: 'lib', name }), source]),
+    ...Object.entries(code.components).map(([name, source]): [string, string] => [codeFilePath({ kind: 'component', name }), source]),
+    ...Object.entries(code.pages).map(([name, source]): [string, string] => [codeFilePath({ kind: 'page', name }), source]),
+    ...Object.entries(code.tests || {}).map(([name, source]): [string, string] => [componentTestPath(name), source]),
+    ...Object.entries(code.handlers || {}).map(([name, source]): [string, string] => [`api/src/handlers/${name}.ts`, source]),
+  ];
+}
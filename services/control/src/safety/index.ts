@@ -0,0 +1,31 @@
+import { AppSpec, SafetyError, SafetyFinding } from '@aws-vibe/shared';
+import { blockingFindings, formatSafetyFinding, safetyMode } from './policy';
+import { screenGeneratedCode } from './code';
+
+export * from './policy';
+export { screenPrompt } from './prompt';
+export { screenGeneratedCode } from './code';
+
+/**
+ * Screen a rendered repo's model-written code before anything in it is
+ * installed or built. Blocking findings throw; the rest are returned.
+ */
+export async function enforceCodeSafety(
+  repoPath: string,
+  spec: AppSpec,
+  onStatus?: (step: string, message: string) => void
+): Promise<SafetyFinding[]> {
+  if (safetyMode() === 'off') return [];
+
+  if (onStatus) onStatus('safety-code', 'Screening generated code');
+  const findings = await screenGeneratedCode(repoPath, spec);
+
+  const blocking = blockingFindings(findings);
+  if (blocking.length > 0) {
+    throw new SafetyError(blocking, `Generated code blocked by safety screening:\n${blocking.map(formatSafetyFinding).join('\n')}`);
+  }
+  if (findings.length > 0 && onStatus) {
+    onStatus('safety-code', `Safety warnings in generated code:\n${findings.map(formatSafetyFinding).join('\n')}`);
+  }
+  return findings;
+}
@@ -0,0 +1,42 @@
+import { SafetyAction, SafetyFinding } from '@aws-vibe/shared';
+
+export type SafetyMode = 'block' | 'warn' | 'off';
+
+/**
+ * How screening findings are treated, from SAFETY_MODE: block stops the job on
+ * findings whose rule blocks, warn only reports them, off skips screening
+ */
+export function safetyMode(): SafetyMode {
+  const mode = process.env.SAFETY_MODE || 'block';
+  if (mode !== 'block' && mode !== 'warn' && mode !== 'off') {
+    throw new Error(`Unknown SAFETY_MODE: ${mode} (expected block, warn or off)`);
+  }
+  return mode;
+}
+
+/**
+ * Action for a rule: its default unless SAFETY_RULES overrides it, as a comma
+ * list such as "outbound-host=warn,dangerous-html=off". Undefined means off.
+ */
+export function ruleAction(rule: string, defaultAction: SafetyAction): SafetyAction | undefined {
+  for (const entry of (process.env.SAFETY_RULES || '').split(',')) {
+    const [name, action] = entry.split('=').map((part) => part.trim());
+    if (name !== rule) continue;
+    if (action === 'off') return undefined;
+    if (action === 'block' || action === 'warn') return action;
+    throw new Error(`Unknown action for ${rule} in SAFETY_RULES: ${action} (expected block, warn or off)`);
+  }
+  return defaultAction;
+}
+
+/**
+ * Findings that stop the job under the current mode
+ */
+export function blockingFindings(findings: SafetyFinding[]): SafetyFinding[] {
+  return safetyMode() === 'block' ? findings.filter((finding) => finding.action === 'block') : [];
+}
+
+export function formatSafetyFinding(finding: SafetyFinding): string {
+  const location = finding.file ? `${finding.file}${finding.line ? `:${finding.line}` : ''}: ` : '';
+  return `[${finding.action}] ${location}${finding.message} (${finding.rule})`;
+}
@@ -0,0 +1,113 @@
+import { ApplyGuardrailCommand, GuardrailAssessment } from '@aws-sdk/client-bedrock-runtime';
+import { SafetyAction, SafetyFinding } from '@aws-vibe/shared';
+import { createBedrockClient } from '../models/invokeModel';
+import { AssumedCredentials } from '../util/aws';
+import { ruleAction } from './policy';
+
+interface PromptRule {
+  id: string;
+  action: SafetyAction;
+  message: string;
+  patterns: RegExp[];
+}
+
+/**
+ * Text checks run on every user prompt before it reaches a model
+ */
+const PROMPT_RULES: PromptRule[] = [
+  {
+    id: 'prompt-injection',
+    action: 'block',
+    message: 'Prompt tries to override the generator\'s instructions',
+    patterns: [
+      /\b(ignore|disregard|forget|override)\b.{0,40}\b(previous|prior|above|earlier|system|all)\b.{0,20}\b(instructions?|prompts?|rules|directions)\b/i,
+      /\b(reveal|print|show|repeat|output)\b.{0,30}\b(system prompt|your instructions|hidden instructions)\b/i,
+      /\byou are (now|no longer)\b/i,
+      /<\/?\s*(system|assistant|instructions?)\s*>/i,
+      /^\s*(human|assistant)\s*:/im,
+      /\b(jailbreak|developer mode|DAN mode)\b/i,
+    ],
+  },
+  {
+    id: 'disallowed-content',
+    action: 'block',
+    message: 'Prompt asks for an app whose purpose is abusive',
+    patterns: [
+      /\b(phishing|credential[- ]harvest\w*|keylogger|ransomware|botnet|cryptojack\w*|crypto[- ]?miner)\b/i,
+      /\b(steal|exfiltrate|harvest)\b.{0,30}\b(passwords?|credentials|cookies|credit cards?|session tokens?)\b/i,
+      /\b(ddos|denial[- ]of[- ]service)\b.{0,30}\b(tool|attack|app|service)\b/i,
+      /\b(fake|clone|spoof)\b.{0,30}\b(login|sign[- ]in) page\b/i,
+    ],
+  },
+];
+
+/**
+ * Screen a user prompt with the pattern rules, then with the Bedrock guardrail
+ * named by BEDROCK_GUARDRAIL_ID when one is configured
+ */
+export async function screenPrompt(prompt: string, credentials: AssumedCredentials): Promise<SafetyFinding[]> {
+  const findings: SafetyFinding[] = [];
+
+  for (const rule of PROMPT_RULES) {
+    const action = ruleAction(rule.id, rule.action);
+    if (!action) continue;
+
+    const match = rule.patterns.map((pattern) => prompt.match(pattern)).find(Boolean);
+    if (match) {
+      findings.push({ rule: rule.id, action, message: `${rule.message}: "${match[0].trim().slice(0, 80)}"` });
+    }
+  }
+
+  const guardrailAction = ruleAction('guardrail', 'block');
+  if (process.env.BEDROCK_GUARDRAIL_ID && guardrailAction) {
+    const intervention = await applyGuardrail(prompt, credentials);
+    if (intervention) {
+      findings.push({ rule: 'guardrail', action: guardrailAction, message: `Bedrock guardrail intervened: ${intervention}` });
+    }
+  }
+
+  if (findings.length > 0) {
+    console.warn(`[Safety] Prompt findings: ${findings.map((finding) => finding.rule).join(', ')}`);
+  }
+  return findings;
+}
+
+/**
+ * Run the prompt through the configured guardrail as model input. Returns a
+ * summary of the policies that intervened, or undefined when it passed. The
+ * guardrail lives in the target account, in BEDROCK_REGION like the models.
+ */
+async function applyGuardrail(prompt: string, credentials: AssumedCredentials): Promise<string | undefined> {
+  const guardrailIdentifier = process.env.BEDROCK_GUARDRAIL_ID!;
+  const guardrailVersion = process.env.BEDROCK_GUARDRAIL_VERSION || 'DRAFT';
+  const region = process.env.BEDROCK_REGION || 'us-east-1';
+  const client = createBedrockClient({ modelId: guardrailIdentifier, region, credentials });
+
+  try {
+    const response = await client.send(new ApplyGuardrailCommand({
+      guardrailIdentifier,
+      guardrailVersion,
+      source: 'INPUT',
+      content: [{ text: { text: prompt } }],
+    }));
+
+    if (response.action !== 'GUARDRAIL_INTERVENED') return undefined;
+    const reasons = (response.assessments || []).flatMap(describeAssessment);
+    return reasons.length > 0 ? [...new Set(reasons)].join(', ') : 'blocked';
+  } catch (error) {
+    const { message } = error as Error;
+    console.error(`[Safety] Guardrail ${guardrailIdentifier} failed: ${message}`);
+    throw new Error(`Bedrock guardrail ${guardrailIdentifier} (version ${guardrailVersion}) could not be applied: ${message}`);
+  }
+}
+
+function describeAssessment(assessment: GuardrailAssessment): string[] {
+  return [
+    ...(assessment.topicPolicy?.topics || []).map((topic) => `denied topic ${topic.name}`),
+    ...(assessment.contentPolicy?.filters || []).map((filter) => `${filter.type?.toLowerCase()} content (${filter.confidence?.toLowerCase()} confidence)`),
+    ...(assessment.wordPolicy?.customWords || []).map((word) => `blocked word "${word.match}"`),
+    ...(assessment.wordPolicy?.managedWordLists || []).map((word) => `${word.type?.toLowerCase()} word list`),
+    ...(assessment.sensitiveInformationPolicy?.piiEntities || []).map((entity) => `${entity.type} PII`),
+    ...(assessment.sensitiveInformationPolicy?.regexes || []).map((regex) => `sensitive pattern ${regex.name}`),
+  ];
+}
@@ -0,0 +1,235 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ejs from 'ejs';
+import { AppSpec, GeneratedCode } from '@aws-vibe/shared';
+import { getBlueprint, templateApplies, templatePath } from './blueprintRegistry';
+import { buildOpenApiDocument, OpenApiDocument, OperationObject, SchemaObject } from './openapi';
+
+/**
+ * Repo-relative paths of the OpenAPI document and the client generated from it
+ */
+export const OPENAPI_PATH = 'api/openapi.json';
+export const API_CLIENT_PATH = 'web/src/lib/api.ts';
+const LIB_DIR = 'web/src/lib/';
+
+const HEADER = `// Generated from ${OPENAPI_PATH}. Do not edit: it is rewritten whenever the API changes.`;
+
+/**
+ * Typed client for an app's API, generated from its OpenAPI document
+ */
+export function apiClientSource(spec: AppSpec): string {
+  return renderApiClient(buildOpenApiDocument(spec));
+}
+
+/**
+ * The client and the lib files the blueprint renders, like the auth provider,
+ * as context for model calls, keyed by path. The client is left out when the
+ * model wrote lib/api.ts itself or the app's blueprint has no API.
+ */
+export function apiClientContext(spec: AppSpec, code?: GeneratedCode): Record<string, string> {
+  const context = blueprintLibFiles(spec);
+  if (!code?.lib.api && getBlueprint(spec.blueprint).features.api) {
+    context[API_CLIENT_PATH] = apiClientSource(spec);
+  }
+  return context;
+}
+
+/**
+ * Lib files rendered from the blueprint's templates for the spec, keyed by
+ * path. The model imports these but never writes them.
+ */
+export function blueprintLibFiles(spec: AppSpec): Record<string, string> {
+  const blueprint = getBlueprint(spec.blueprint);
+  const files: Record<string, string> = {};
+
+  for (const entry of blueprint.templates) {
+    if (!entry.output.startsWith(LIB_DIR) || entry.each || !templateApplies(entry, spec)) continue;
+    const file = templatePath(blueprint, entry);
+    files[entry.output] = ejs.render(fs.readFileSync(file, 'utf-8'), { spec, auth: spec.auth }, { filename: file });
+  }
+  return files;
+}
+
+/**
+ * Lib module names (auth, AuthProvider) of the files the blueprint renders
+ */
+export function blueprintLibNames(spec: AppSpec): string[] {
+  return Object.keys(blueprintLibFiles(spec)).map((file) => path.basename(file).replace(/\.tsx?$/, ''));
+}
+
+/**
+ * Render a TypeScript module with an interface per component schema and an
+ * async function per operation, named by operationId. The API base URL comes
+ * from /config.json at runtime, falling back to NEXT_PUBLIC_API_URL.
+ */
+export function renderApiClient(document: OpenApiDocument): string {
+  const operations = Object.entries(document.paths).flatMap(([path, methods]) =>
+    Object.entries(methods).map(([method, operation]) => ({ path, method: method.toUpperCase(), operation }))
+  );
+  // setAuthToken is exported whenever the API has auth, for the auth provider to call
+  const usesAuth = Boolean(document.components.securitySchemes);
+
+  const lines = [HEADER, ''];
+
+  for (const [name, schema] of Object.entries(document.components.schemas)) {
+    lines.push(...renderSchema(name, schema), '');
+  }
+
+  lines.push(
+    'export class ApiError extends Error {',
+    '  constructor(public status: number, message: string) {',
+    '    super(message);',
+    "    this.name = 'ApiError';",
+    '  }',
+    '}',
+    '',
+    'let apiBase: Promise<string> | undefined;',
+    ''
+  );
+
+  if (usesAuth) {
+    lines.push(
+      'type AuthToken = string | null | (() => Promise<string | null>);',
+      '',
+      'let authToken: AuthToken = null;',
+      '',
+      '/**',
+      ' * Cognito ID token sent with requests to endpoints that require sign-in, or',
+      ' * a function called before each of those requests for the current token',
+      ' */',
+      'export function setAuthToken(token: AuthToken): void {',
+      '  authToken = token;',
+      '}',
+      ''
+    );
+  }
+
+  lines.push(
+    '/**',
+    ' * API base URL from /config.json, written at deploy time, else NEXT_PUBLIC_API_URL',
+    ' */',
+    'function getApiBase(): Promise<string> {',
+    '  if (!apiBase) {',
+    "    const fallback = process.env.NEXT_PUBLIC_API_URL || '';",
+    "    apiBase = fetch('/config.json')",
+    '      .then((response) => (response.ok ? response.json() : {}))',
+    '      .then((config: { apiUrl?: string }) => config.apiUrl || fallback)',
+    '      .catch(() => fallback)',
+    "      .then((url) => url.replace(/\\/+$/, ''));",
+    '  }',
+    '  return apiBase;',
+    '}',
+    '',
+    `async function request<T>(method: string, path: string, body?: unknown${usesAuth ? ', auth = false' : ''}): Promise<T> {`,
+    '  const headers: Record<string, string> = {};',
+    "  if (body !== undefined) headers['Content-Type'] = 'application/json';",
+    ...(usesAuth
+      ? [
+          '  if (auth) {',
+          "    const token = typeof authToken === 'function' ? await authToken() : authToken;",
+          '    if (token) headers.Authorization = token;',
+          '  }',
+        ]
+      : []),
+    '',
+    '  const response = await fetch(`${await getApiBase()}${path}`, {',
+    '    method,',
+    '    headers,',
+    '    body: body === undefined ? undefined : JSON.stringify(body),',
+    '  });',
+    '  const data = await response.json().catch(() => undefined);',
+    '',
+    '  if (!response.ok) {',
+    '    throw new ApiError(response.status, (data && data.error) || `${method} ${path} failed with status ${response.status}`);',
+    '  }',
+    '  return data as T;',
+    '}'
+  );
+
+  for (const { path, method, operation } of operations) {
+    lines.push('', ...renderOperation(path, method, operation, usesAuth));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function renderSchema(name: string, schema: SchemaObject): string[] {
+  if (schema.type !== 'object' || !schema.properties) {
+    return [`export type ${name} = ${typeOf(schema)};`];
+  }
+  if (Object.keys(schema.properties).length === 0) {
+    return [`export type ${name} = Record<string, never>;`];
+  }
+  return [`export interface ${name} {`, ...propertyLines(schema, '  '), '}'];
+}
+
+function renderOperation(path: string, method: string, operation: OperationObject, usesAuth: boolean): string[] {
+  const params = (operation.parameters || []).map((parameter) => ({
+    name: parameter.name,
+    arg: identifier(parameter.name),
+    type: typeOf(parameter.schema),
+  }));
+  const bodySchema = operation.requestBody?.content['application/json'].schema;
+  const success = Object.keys(operation.responses).filter((status) => status.startsWith('2')).sort()[0];
+  const responseSchema = success ? operation.responses[success].content?.['application/json'].schema : undefined;
+
+  // Handler-defined responses let the caller pick the type
+  const custom = responseSchema?.additionalProperties === true && !responseSchema.properties;
+  const returnType = custom ? 'T' : responseSchema ? typeOf(responseSchema) : 'void';
+
+  const args = [
+    ...params.map((param) => `${param.arg}: ${param.type}`),
+    ...(bodySchema ? [`body${operation.requestBody!.required ? '' : '?'}: ${typeOf(bodySchema)}`] : []),
+  ];
+  const url = path.replace(/\{([^}]+)\}/g, (_, name: string) => `\${encodeURIComponent(String(${identifier(name)}))}`);
+  const callArgs = [`'${method}'`, `\`${url}\``];
+  if (bodySchema || (usesAuth && operation.security)) callArgs.push(bodySchema ? 'body' : 'undefined');
+  if (usesAuth && operation.security) callArgs.push('true');
+
+  return [
+    '/**',
+    ` * ${method} ${path}${operation.summary ? ` - ${operation.summary}` : ''}`,
+    ' */',
+    `export async function ${operation.operationId}${custom ? '<T = Record<string, unknown>>' : ''}(${args.join(', ')}): Promise<${returnType}> {`,
+    `  return request<${returnType}>(${callArgs.join(', ')});`,
+    '}',
+  ];
+}
+
+function typeOf(schema: SchemaObject): string {
+  if (schema.$ref) return schema.$ref.split('/').pop()!;
+
+  switch (schema.type) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return schema.type;
+    case 'array': {
+      const item = schema.items ? typeOf(schema.items) : 'unknown';
+      return /^[A-Za-z0-9_]+$/.test(item) ? `${item}[]` : `Array<${item}>`;
+    }
+    case 'object':
+      if (schema.properties && Object.keys(schema.properties).length > 0) {
+        return `{ ${propertyLines(schema, '').map((line) => line.replace(/;$/, '')).join('; ')} }`;
+      }
+      return 'Record<string, unknown>';
+    default:
+      return 'unknown';
+  }
+}
+
+function propertyLines(schema: SchemaObject, indent: string): string[] {
+  const required = new Set(schema.required || []);
+  return Object.entries(schema.properties || {}).map(([name, property]) => {
+    const key = /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+    return `${indent}${key}${required.has(name) ? '' : '?'}: ${typeOf(property)};`;
+  });
+}
+
+/**
+ * Path parameter names as function arguments (user-id -> userId)
+ */
+function identifier(name: string): string {
+  const camel = name.replace(/[^A-Za-z0-9_$]+(.)?/g, (_, next: string | undefined) => (next ? next.toUpperCase() : ''));
+  return /^[A-Za-z_$]/.test(camel) ? camel : `_${camel}`;
+}
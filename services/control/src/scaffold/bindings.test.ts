@@ -0,0 +1,139 @@
+import { describe, expect, it } from '@jest/globals';
+import { ApiEndpointSpec, DataModelSpec } from '@aws-vibe/shared';
+import { resolveEndpointBinding, sameName, tableOwnerAttribute } from './bindings';
+
+const todos: DataModelSpec = {
+  table: 'Todos',
+  partitionKey: 'userId',
+  sortKey: 'todoId',
+  attributes: [
+    { name: 'userId', type: 'string', required: true },
+    { name: 'todoId', type: 'string', required: true },
+    { name: 'title', type: 'string', required: true },
+  ],
+};
+
+const users: DataModelSpec = {
+  table: 'Users',
+  partitionKey: 'userId',
+  attributes: [{ name: 'userId', type: 'string', required: true }],
+};
+
+const notes: DataModelSpec = {
+  table: 'Notes',
+  partitionKey: 'noteId',
+  attributes: [
+    { name: 'noteId', type: 'string', required: true },
+    { name: 'ownerId', type: 'string', required: true },
+  ],
+};
+
+function endpoint(method: ApiEndpointSpec['method'], path: string, extra: Partial<ApiEndpointSpec> = {}): ApiEndpointSpec {
+  return { path, method, handler: 'handler', ...extra };
+}
+
+function operation(method: ApiEndpointSpec['method'], path: string, dataModel: DataModelSpec[] = [notes]): string {
+  return resolveEndpointBinding(endpoint(method, path), dataModel).operation;
+}
+
+describe('resolveEndpointBinding', () => {
+  it('maps methods on a collection and its items to operations and grants', () => {
+    const bindings = [
+      endpoint('GET', '/notes'),
+      endpoint('GET', '/notes/{noteId}'),
+      endpoint('POST', '/notes'),
+      endpoint('PUT', '/notes/{noteId}'),
+      endpoint('PATCH', '/notes/{noteId}'),
+      endpoint('DELETE', '/notes/{noteId}'),
+    ].map((spec) => resolveEndpointBinding(spec, [notes]));
+
+    expect(bindings.map((binding) => [binding.operation, binding.grant])).toEqual([
+      ['list', 'grantReadData'],
+      ['get', 'grantReadData'],
+      ['create', 'grantWriteData'],
+      ['update', 'grantWriteData'],
+      ['update', 'grantWriteData'],
+      ['delete', 'grantWriteData'],
+    ]);
+    expect(bindings[1].keyParams).toEqual({ partitionKey: 'noteId', sortKey: undefined });
+  });
+
+  it('binds to the last path segment that names a table', () => {
+    const query = resolveEndpointBinding(endpoint('GET', '/users/{userId}/todos'), [users, todos]);
+    expect(query.table).toBe(todos);
+    expect(query.operation).toBe('query');
+    expect(query.keyParams).toEqual({ partitionKey: 'userId', sortKey: undefined });
+
+    const get = resolveEndpointBinding(endpoint('GET', '/users/{userId}/todos/{todoId}'), [users, todos]);
+    expect(get.operation).toBe('get');
+    expect(get.pathParams).toEqual(['userId', 'todoId']);
+
+    expect(resolveEndpointBinding(endpoint('GET', '/users/{userId}'), [users, todos]).table).toBe(users);
+  });
+
+  it('assigns params that do not name a key to the keys in order', () => {
+    const binding = resolveEndpointBinding(endpoint('DELETE', '/todos/{owner}/{id}'), [todos]);
+
+    expect(binding.keyParams).toEqual({ partitionKey: 'owner', sortKey: 'id' });
+    expect(binding.operation).toBe('delete');
+  });
+
+  it('prefers the explicit table, matched regardless of case', () => {
+    const binding = resolveEndpointBinding(endpoint('GET', '/api/notes', { table: 'notes' }), [notes, users]);
+
+    expect(binding.table).toBe(notes);
+    expect(binding.operation).toBe('list');
+  });
+
+  it('falls back to the only table, and to custom when there is none to bind', () => {
+    expect(resolveEndpointBinding(endpoint('GET', '/items/{noteId}'), [notes])).toMatchObject({ table: notes, operation: 'get' });
+
+    const unbound = resolveEndpointBinding(endpoint('GET', '/health'), [notes, users]);
+    expect(unbound).toEqual({
+      endpoint: endpoint('GET', '/health'),
+      operation: 'custom',
+      pathParams: [],
+      keyParams: {},
+      grant: 'grantReadWriteData',
+    });
+  });
+
+  it('treats actions past the collection and partial-key deletes as custom', () => {
+    expect(operation('POST', '/notes/{noteId}/archive')).toBe('custom');
+    expect(operation('DELETE', '/notes')).toBe('custom');
+    expect(operation('DELETE', '/todos/{userId}', [todos])).toBe('custom');
+    expect(resolveEndpointBinding(endpoint('POST', '/notes/{noteId}/archive'), [notes]).grant).toBe('grantReadWriteData');
+  });
+
+  it('scopes signed-in endpoints to the caller, who supplies an owner key', () => {
+    const own = (path: string) => resolveEndpointBinding(endpoint('GET', path, { requiresAuth: true }), [todos], true);
+
+    expect(own('/todos')).toMatchObject({ operation: 'query', ownerAttribute: 'userId' });
+    expect(own('/todos/{todoId}')).toMatchObject({ operation: 'get', ownerAttribute: 'userId', keyParams: { sortKey: 'todoId' } });
+    expect(resolveEndpointBinding(endpoint('GET', '/notes', { requiresAuth: true }), [notes], true).ownerAttribute).toBe('ownerId');
+  });
+
+  it('leaves endpoints unscoped without auth or when they do not require sign-in', () => {
+    expect(resolveEndpointBinding(endpoint('GET', '/todos', { requiresAuth: true }), [todos])).not.toHaveProperty('ownerAttribute');
+    expect(resolveEndpointBinding(endpoint('GET', '/todos'), [todos], true)).not.toHaveProperty('ownerAttribute');
+    expect(resolveEndpointBinding(endpoint('GET', '/todos'), [todos], true).operation).toBe('list');
+  });
+});
+
+describe('tableOwnerAttribute', () => {
+  it('prefers userId over ownerId', () => {
+    expect(tableOwnerAttribute({ ...notes, attributes: [...notes.attributes, { name: 'userId', type: 'string' }] })).toBe('userId');
+    expect(tableOwnerAttribute(notes)).toBe('ownerId');
+    expect(tableOwnerAttribute(users)).toBe('userId');
+    expect(tableOwnerAttribute({ ...notes, attributes: [notes.attributes[0]] })).toBeUndefined();
+  });
+});
+
+describe('sameName', () => {
+  it('ignores case, separators and plural form', () => {
+    expect(sameName('todo-items', 'TodoItem')).toBe(true);
+    expect(sameName('categories', 'Category')).toBe(true);
+    expect(sameName('user_profiles', 'UserProfiles')).toBe(true);
+    expect(sameName('todos', 'Notes')).toBe(false);
+  });
+});
@@ -0,0 +1,179 @@
+import { ApiEndpointSpec, AppSpec, DataModelSpec } from '@aws-vibe/shared';
+
+export type EndpointOperation = 'list' | 'query' | 'get' | 'create' | 'update' | 'delete' | 'custom';
+
+// Attributes that hold the ID of the user an item belongs to, in order of preference
+const OWNER_ATTRIBUTES = ['userId', 'ownerId'];
+
+/**
+ * An API endpoint resolved to the table it operates on
+ */
+export interface EndpointBinding {
+  endpoint: ApiEndpointSpec;
+  table?: DataModelSpec;
+  operation: EndpointOperation;
+  pathParams: string[];
+  /** Path parameter that carries each key attribute, when the path has one */
+  keyParams: { partitionKey?: string; sortKey?: string };
+  /** Table grant the handler's Lambda needs */
+  grant: 'grantReadData' | 'grantWriteData' | 'grantReadWriteData';
+  /** Attribute set to the signed-in caller's ID, scoping the endpoint to the caller's own items */
+  ownerAttribute?: string;
+}
+
+export function resolveEndpointBindings(spec: AppSpec): EndpointBinding[] {
+  return spec.api.map((endpoint) => resolveEndpointBinding(endpoint, spec.dataModel, spec.auth));
+}
+
+/**
+ * The table's userId (or ownerId) attribute, holding the ID of the user an item belongs to
+ */
+export function tableOwnerAttribute(table: DataModelSpec): string | undefined {
+  const names = table.attributes.map((attribute) => attribute.name);
+  return OWNER_ATTRIBUTES.find((name) => names.includes(name));
+}
+
+/**
+ * Bind an endpoint to a table: the explicit endpoint.table when set, else the
+ * last static path segment that names a table (/users/{userId}/todos -> Todos),
+ * else the only table. The operation follows from the method and which key
+ * attributes the path supplies; anything past the collection is custom.
+ *
+ * With auth, endpoints that require sign-in are scoped to the caller's items
+ * when their table has an owner attribute. An owner key comes from the caller
+ * rather than the path, so /notes/{noteId} on a table keyed by userId and
+ * noteId gets one note.
+ */
+export function resolveEndpointBinding(endpoint: ApiEndpointSpec, dataModel: DataModelSpec[], auth = false): EndpointBinding {
+  const segments = endpoint.path.split('/').filter((segment) => segment);
+  const pathParams = segments.filter(isParam).map((segment) => segment.slice(1, -1));
+
+  let table: DataModelSpec | undefined;
+  let collectionIndex = -1;
+
+  if (endpoint.table) {
+    table = dataModel.find((model) => model.table.toLowerCase() === endpoint.table!.toLowerCase());
+    collectionIndex = segments.findIndex((segment) => table && !isParam(segment) && sameName(segment, table.table));
+  } else {
+    for (let i = segments.length - 1; i >= 0 && !table; i--) {
+      if (isParam(segments[i])) continue;
+      table = dataModel.find((model) => sameName(segments[i], model.table));
+      if (table) collectionIndex = i;
+    }
+    if (!table && dataModel.length === 1) {
+      table = dataModel[0];
+      collectionIndex = segments.findIndex((segment) => !isParam(segment));
+    }
+  }
+
+  if (!table) {
+    return { endpoint, operation: 'custom', pathParams, keyParams: {}, grant: 'grantReadWriteData' };
+  }
+
+  const trailing = segments.slice(collectionIndex + 1);
+  const keyParams = resolveKeyParams(table, pathParams, trailing.filter(isParam).map((segment) => segment.slice(1, -1)));
+  const ownerAttribute = auth && endpoint.requiresAuth ? tableOwnerAttribute(table) : undefined;
+  const suppliedKeys = {
+    partitionKey: ownerAttribute === table.partitionKey ? ownerAttribute : keyParams.partitionKey,
+    sortKey: ownerAttribute && ownerAttribute === table.sortKey ? ownerAttribute : keyParams.sortKey,
+  };
+  const operation = trailing.some((segment) => !isParam(segment))
+    ? 'custom'
+    : resolveOperation(endpoint.method, table, suppliedKeys);
+
+  return {
+    endpoint,
+    table,
+    operation,
+    pathParams,
+    keyParams,
+    grant: tableGrant(operation),
+    ...(ownerAttribute ? { ownerAttribute } : {}),
+  };
+}
+
+/**
+ * What a bound endpoint returns, for prompts that write its callers
+ */
+export function describeResponse(binding: EndpointBinding): string {
+  const item = binding.table ? `${binding.table.table} item` : 'item';
+
+  switch (binding.operation) {
+    case 'list':
+    case 'query':
+      return `{ items: ${item}[] }`;
+    case 'get':
+      return `the ${item}, or 404 { error }`;
+    case 'create':
+      return `201 with the created ${item}`;
+    case 'update':
+      return `the updated ${item}, or 404 { error }`;
+    case 'delete':
+      return '{ deleted: true }, or 404 { error }';
+    default:
+      return 'JSON; errors as { error }';
+  }
+}
+
+function resolveKeyParams(
+  table: DataModelSpec,
+  pathParams: string[],
+  trailingParams: string[]
+): EndpointBinding['keyParams'] {
+  // Exact names first (/users/{userId}/todos/{todoId}), then the params after
+  // the collection segment in order (/todos/{id} when the key is todoId)
+  const unmatched = trailingParams.filter((param) => param !== table.partitionKey && param !== table.sortKey);
+
+  const partitionKey = pathParams.includes(table.partitionKey) ? table.partitionKey : unmatched.shift();
+  const sortKey = table.sortKey
+    ? pathParams.includes(table.sortKey) ? table.sortKey : unmatched.shift()
+    : undefined;
+
+  return { partitionKey, sortKey };
+}
+
+function resolveOperation(
+  method: ApiEndpointSpec['method'],
+  table: DataModelSpec,
+  keyParams: EndpointBinding['keyParams']
+): EndpointOperation {
+  const fullKey = !!keyParams.partitionKey && (!table.sortKey || !!keyParams.sortKey);
+
+  switch (method) {
+    case 'GET':
+      if (fullKey) return 'get';
+      return keyParams.partitionKey ? 'query' : 'list';
+    case 'POST':
+      return 'create';
+    case 'PUT':
+    case 'PATCH':
+      return 'update';
+    case 'DELETE':
+      return fullKey ? 'delete' : 'custom';
+    default:
+      return 'custom';
+  }
+}
+
+function tableGrant(operation: EndpointOperation): EndpointBinding['grant'] {
+  if (operation === 'list' || operation === 'query' || operation === 'get') return 'grantReadData';
+  if (operation === 'custom') return 'grantReadWriteData';
+  return 'grantWriteData';
+}
+
+function isParam(segment: string): boolean {
+  return segment.startsWith('{') && segment.endsWith('}');
+}
+
+/**
+ * Path segments and table names match regardless of case, separators and plural form
+ */
+export function sameName(segment: string, tableName: string): boolean {
+  const normalize = (name: string) =>
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, '')
+      .replace(/ies$/, 'y')
+      .replace(/s$/, '');
+  return normalize(segment) === normalize(tableName);
+}
@@ -0,0 +1,205 @@
+import * as path from 'path';
+import { z } from 'zod';
+import { AppSpec, BlueprintInfo } from '@aws-vibe/shared';
+import { exists, listDir, readJson } from '../util/fsx';
+
+const MANIFEST_FILE = 'blueprint.json';
+const BUILT_IN_DIR = path.join(__dirname, 'blueprints');
+
+/**
+ * Repo-relative path with no way out of the repo
+ */
+const repoPathSchema = z
+  .string()
+  .min(1)
+  .refine((value) => !path.isAbsolute(value) && !value.split(/[\\/]/).includes('..'), 'must be a relative path inside the repo');
+
+const templateSchema = z
+  .object({
+    /** EJS file in the blueprint directory, or in the one named by from */
+    template: z.string().min(1),
+    /** Where the rendered file goes; {handler} is replaced for each endpoint */
+    output: repoPathSchema,
+    from: z.string().optional(),
+    /** Render once per API endpoint, with endpoint, binding and generated in the context */
+    each: z.literal('endpoint').optional(),
+    /** Only render when the spec has no generated code, as a placeholder page, or only for specs with auth */
+    when: z.enum(['noGeneratedCode', 'auth']).optional(),
+    /** The model-written handler for the endpoint replaces the template when there is one */
+    generated: z.literal('handler').optional(),
+  })
+  .refine((entry) => !entry.each || entry.output.includes('{handler}'), 'per-endpoint output must contain {handler}')
+  .refine((entry) => !entry.generated || entry.each === 'endpoint', 'generated handlers need each: "endpoint"');
+
+export const blueprintManifestSchema = z.object({
+  name: z.string().regex(/^[a-z][a-z0-9-]*$/, 'must be lowercase letters, digits and hyphens'),
+  displayName: z.string().min(1),
+  description: z.string().default(''),
+  features: z.object({
+    api: z.boolean(),
+    dataModel: z.boolean(),
+    auth: z.boolean(),
+    handlers: z.boolean().default(false),
+    seedData: z.boolean().default(false),
+    /** Versioned SQL migrations from the data model, in api/migrations */
+    migrations: z.boolean().default(false),
+  }),
+  /** Docker image the deploy builds and pushes to the stack's registry before deploying what runs it */
+  image: z
+    .object({
+      /** Build context holding the Dockerfile */
+      context: repoPathSchema,
+      /** Stack output with the URI of the registry repository */
+      repositoryOutput: z.string().default('RepositoryUri'),
+    })
+    .optional(),
+  /** Repo directories whose Jest suites the test gate runs */
+  testProjects: z.array(repoPathSchema).default([]),
+  directories: z.array(repoPathSchema).default([]),
+  templates: z.array(templateSchema).min(1),
+  /** Appended to the system prompts of the spec, web code and handler steps */
+  prompts: z
+    .object({
+      spec: z.string().optional(),
+      code: z.string().optional(),
+      handlers: z.string().optional(),
+    })
+    .default({}),
+});
+
+export type BlueprintManifest = z.infer<typeof blueprintManifestSchema>;
+export type BlueprintTemplate = BlueprintManifest['templates'][number];
+export type BlueprintPromptKind = keyof BlueprintManifest['prompts'];
+
+export interface BlueprintDefinition extends BlueprintManifest {
+  /** Directory holding blueprint.json and its templates */
+  dir: string;
+  builtIn: boolean;
+}
+
+/**
+ * Blueprint registry.
+ *
+ * Filled by loadBlueprints at startup from the blueprints shipped next to this
+ * file and every directory in BLUEPRINT_DIRS.
+ */
+const blueprints = new Map<string, BlueprintDefinition>();
+
+export function registerBlueprint(blueprint: BlueprintDefinition): void {
+  const existing = blueprints.get(blueprint.name);
+  if (existing) {
+    throw new Error(`Blueprint ${blueprint.name} in ${blueprint.dir} is already registered from ${existing.dir}`);
+  }
+  blueprints.set(blueprint.name, blueprint);
+}
+
+export function hasBlueprint(name: string): boolean {
+  return blueprints.has(name);
+}
+
+export function listBlueprintNames(): string[] {
+  return Array.from(blueprints.keys());
+}
+
+export function getBlueprint(name: string): BlueprintDefinition {
+  const blueprint = blueprints.get(name);
+  if (!blueprint) {
+    throw new Error(`Unknown blueprint: ${name} (available: ${listBlueprintNames().join(', ')})`);
+  }
+  return blueprint;
+}
+
+/**
+ * What the UI shows for each registered blueprint
+ */
+export function listBlueprints(): BlueprintInfo[] {
+  return Array.from(blueprints.values()).map((blueprint) => ({
+    name: blueprint.name,
+    displayName: blueprint.displayName,
+    description: blueprint.description,
+    features: blueprint.features,
+    builtIn: blueprint.builtIn,
+  }));
+}
+
+/**
+ * The blueprint's addition to a system prompt, or an empty string
+ */
+export function blueprintPrompt(name: string, kind: BlueprintPromptKind): string {
+  const addition = getBlueprint(name).prompts[kind];
+  return addition ? `\n\n${addition}` : '';
+}
+
+/**
+ * Absolute path of a template, which may come from another blueprint's directory
+ */
+export function templatePath(blueprint: BlueprintDefinition, entry: BlueprintTemplate): string {
+  const dir = entry.from ? getBlueprint(entry.from).dir : blueprint.dir;
+  return path.join(dir, entry.template);
+}
+
+/**
+ * Whether a template is rendered for the spec
+ */
+export function templateApplies(entry: BlueprintTemplate, spec: AppSpec): boolean {
+  if (entry.when === 'noGeneratedCode') return !spec.generatedCode;
+  if (entry.when === 'auth') return spec.auth;
+  return true;
+}
+
+/**
+ * Discover every blueprint directory with a blueprint.json, replacing any
+ * loaded before. A manifest that is invalid or names a missing template fails
+ * the whole load, so a broken blueprint is caught at startup.
+ */
+export async function loadBlueprints(): Promise<BlueprintInfo[]> {
+  blueprints.clear();
+
+  await loadFromDir(BUILT_IN_DIR, true);
+  const extraDirs = (process.env.BLUEPRINT_DIRS || '').split(',').map((dir) => dir.trim()).filter(Boolean);
+  for (const dir of extraDirs) {
+    await loadFromDir(path.resolve(dir), false);
+  }
+
+  // Checked once everything is registered, as templates may come from another blueprint
+  for (const blueprint of blueprints.values()) {
+    for (const entry of blueprint.templates) {
+      if (entry.from && !hasBlueprint(entry.from)) {
+        throw new Error(`Blueprint ${blueprint.name}: template ${entry.template} is from unknown blueprint ${entry.from}`);
+      }
+      if (!(await exists(templatePath(blueprint, entry)))) {
+        throw new Error(`Blueprint ${blueprint.name}: template ${templatePath(blueprint, entry)} does not exist`);
+      }
+    }
+  }
+
+  console.log(`[Scaffold] Loaded blueprints: ${listBlueprintNames().join(', ')}`);
+  return listBlueprints();
+}
+
+async function loadFromDir(rootDir: string, builtIn: boolean): Promise<void> {
+  if (!(await exists(rootDir))) {
+    throw new Error(`Blueprint directory ${rootDir} does not exist`);
+  }
+
+  for (const entry of (await listDir(rootDir)).sort()) {
+    const dir = path.join(rootDir, entry);
+    const manifestPath = path.join(dir, MANIFEST_FILE);
+    if (!(await exists(manifestPath))) continue;
+
+    let data: unknown;
+    try {
+      data = await readJson(manifestPath);
+    } catch (error) {
+      throw new Error(`Blueprint manifest ${manifestPath} is not valid JSON: ${(error as Error).message}`);
+    }
+
+    const result = blueprintManifestSchema.safeParse(data);
+    if (!result.success) {
+      const errors = result.error.errors.map((e) => `${e.path.join('.') || '(root)'}: ${e.message}`);
+      throw new Error(`Invalid blueprint manifest ${manifestPath}: ${errors.join('; ')}`);
+    }
+
+    registerBlueprint({ ...result.data, dir, builtIn });
+  }
+}
@@ -0,0 +1,137 @@
+import * as path from 'path';
+import { AppSpec, ConversationOperation, ConversationTurn } from '@aws-vibe/shared';
+import { appendFile, exists, readFile } from '../util/fsx';
+
+const WORK_DIR = '/work';
+
+export interface TurnInput {
+  operation: ConversationOperation;
+  jobId?: string;
+  prompt?: string;
+  spec: AppSpec;
+  commit?: string;
+  /** Spec to compare against when the log is empty, e.g. on apps created before it existed */
+  previousSpec?: AppSpec;
+}
+
+const UNCHANGED: Record<ConversationOperation, string> = {
+  generate: 'Spec unchanged',
+  plan: 'Spec unchanged',
+  edit: 'Spec saved without changes',
+  build: 'Generated code for the spec and committed it',
+  import: 'Spec unchanged',
+  iterate: 'No spec changes were needed',
+};
+
+function conversationPath(appId: string): string {
+  return path.join(WORK_DIR, appId, '.vibe', 'conversation.jsonl');
+}
+
+/**
+ * Read an app's conversation log, oldest turn first. Apps created before the
+ * log existed have none.
+ */
+export async function readConversation(appId: string): Promise<ConversationTurn[]> {
+  const logPath = conversationPath(appId);
+  if (!(await exists(logPath))) return [];
+
+  const content = await readFile(logPath);
+  return content
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as ConversationTurn);
+}
+
+/**
+ * Append a turn to the app's conversation log. The spec version is bumped
+ * only when the spec differs from the one recorded by the previous turn.
+ */
+export async function appendTurn(appId: string, input: TurnInput): Promise<ConversationTurn> {
+  const turns = await readConversation(appId);
+  const last = turns[turns.length - 1];
+  const previous = last ? last.spec : input.previousSpec && withoutCode(input.previousSpec);
+  const spec = withoutCode(input.spec);
+  const changed = !previous || JSON.stringify(previous) !== JSON.stringify(spec);
+
+  const turn: ConversationTurn = {
+    turn: turns.length + 1,
+    timestamp: new Date().toISOString(),
+    operation: input.operation,
+    jobId: input.jobId,
+    prompt: input.prompt,
+    response: changed ? summarizeSpecChange(previous, spec) : UNCHANGED[input.operation],
+    specVersion: (last?.specVersion || (input.previousSpec ? 1 : 0)) + (changed ? 1 : 0),
+    spec,
+    commit: input.commit,
+  };
+
+  await appendFile(conversationPath(appId), `${JSON.stringify(turn)}\n`);
+  console.log(`[Conversation] ${appId} turn ${turn.turn} (${turn.operation}), spec v${turn.specVersion}`);
+  return turn;
+}
+
+/**
+ * Turns worth showing the model when refining: the one the app was created
+ * from plus the most recent CONVERSATION_CONTEXT_TURNS turns that had a prompt
+ */
+export function relevantTurns(turns: ConversationTurn[]): ConversationTurn[] {
+  const limit = parseInt(process.env.CONVERSATION_CONTEXT_TURNS || '10', 10);
+  if (limit <= 0) return [];
+
+  const prompted = turns.filter((turn) => turn.prompt);
+  if (prompted.length <= limit) return prompted;
+
+  return [prompted[0], ...prompted.slice(prompted.length - (limit - 1))];
+}
+
+/**
+ * Describe how a spec changed, by page route, endpoint and table
+ */
+export function summarizeSpecChange(previous: AppSpec | undefined, next: AppSpec): string {
+  if (!previous) {
+    return `Created spec with ${count(next.pages.length, 'page')}, ${count(next.api.length, 'endpoint')} and ${count(next.dataModel.length, 'table')}`;
+  }
+
+  const parts = [
+    ...diffByKey('pages', previous.pages, next.pages, (page) => page.route),
+    ...diffByKey('endpoints', previous.api, next.api, (api) => `${api.method} ${api.path}`),
+    ...diffByKey('tables', previous.dataModel, next.dataModel, (model) => model.table),
+  ];
+
+  if (previous.name !== next.name) parts.push(`renamed to ${next.name}`);
+  if (previous.auth !== next.auth) parts.push(next.auth ? 'turned on auth' : 'turned off auth');
+  if (JSON.stringify(previous.envVars) !== JSON.stringify(next.envVars)) {
+    parts.push('updated environment variables');
+  }
+
+  return parts.length > 0 ? capitalize(parts.join('; ')) : 'Updated spec details';
+}
+
+function diffByKey<T>(label: string, before: T[], after: T[], key: (item: T) => string): string[] {
+  const beforeByKey = new Map(before.map((item) => [key(item), item]));
+  const afterByKey = new Map(after.map((item) => [key(item), item]));
+
+  const added = after.map(key).filter((k) => !beforeByKey.has(k));
+  const removed = before.map(key).filter((k) => !afterByKey.has(k));
+  const changed = after
+    .filter((item) => beforeByKey.has(key(item)) && JSON.stringify(beforeByKey.get(key(item))) !== JSON.stringify(item))
+    .map(key);
+
+  return [
+    ...(added.length > 0 ? [`added ${label} ${added.join(', ')}`] : []),
+    ...(removed.length > 0 ? [`removed ${label} ${removed.join(', ')}`] : []),
+    ...(changed.length > 0 ? [`changed ${label} ${changed.join(', ')}`] : []),
+  ];
+}
+
+function withoutCode(spec: AppSpec): AppSpec {
+  return { ...spec, generatedCode: undefined };
+}
+
+function count(value: number, noun: string): string {
+  return `${value} ${noun}${value === 1 ? '' : 's'}`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
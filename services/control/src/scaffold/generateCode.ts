@@ -0,0 +1,153 @@
+import { AppSpec, GeneratedCode, MockupImage } from '@aws-vibe/shared';
+import { planCodeFiles, generateCodeFile, codeFilePath, CodeFilePlan } from '../bedrock';
+import { AssumedCredentials } from '../util/aws';
+import { codegenConcurrency, mapWithConcurrency } from '../util/concurrency';
+import { apiClientContext, blueprintLibNames } from './apiClient';
+
+const REQUIRED_LIB_FILES = ['types'];
+
+/**
+ * Generate web source code one file at a time.
+ *
+ * A plan step lists the files and their imports; files are then generated in
+ * dependency order (lib/types, components, pages) with the files they import
+ * passed along as context. lib/api.ts is not written by the model: the client
+ * generated from the app's OpenAPI document goes to every file as the API it
+ * must call, unless the blueprint has no API, along with the lib files the
+ * blueprint renders itself, like the auth provider of apps with auth. Files
+ * within a stage run concurrently, up to CODEGEN_CONCURRENCY calls at once.
+ * Mockup images, when given, are shown to the planner and to every page and
+ * component.
+ */
+export async function generateCode(
+  spec: AppSpec,
+  credentials: AssumedCredentials,
+  onStatus?: (step: string, message: string) => void,
+  images: MockupImage[] = []
+): Promise<GeneratedCode> {
+  const concurrency = codegenConcurrency();
+
+  if (onStatus) onStatus('bedrock-plan', 'Planning web app files with AI');
+  const plan = normalizePlan(spec, await planCodeFiles(spec, credentials, images));
+  if (onStatus) onStatus('bedrock-plan', `Planned ${plan.length} files`);
+
+  const code: GeneratedCode = { pages: {}, components: {}, lib: {} };
+  const written = new Map<CodeFilePlan, string>();
+  const clientContext = apiClientContext(spec);
+  let completed = 0;
+
+  for (const stage of dependencyStages(plan)) {
+    await mapWithConcurrency(stage, concurrency, async (file) => {
+      const context: Record<string, string> = { ...clientContext };
+      for (const dependency of resolveDependencies(file, plan)) {
+        const source = written.get(dependency);
+        if (source) context[codeFilePath(dependency)] = source;
+      }
+
+      const source = await generateCodeFile(spec, file, context, credentials, images);
+      written.set(file, source);
+
+      if (file.kind === 'lib') code.lib[file.name] = source;
+      else if (file.kind === 'component') code.components[file.name] = source;
+      else code.pages[file.name] = source;
+
+      completed++;
+      console.log(`[Scaffold] Generated ${codeFilePath(file)} (${completed}/${plan.length})`);
+      if (onStatus) onStatus('bedrock-components', `Generated ${codeFilePath(file)} (${completed}/${plan.length})`);
+    });
+  }
+
+  return code;
+}
+
+/**
+ * Reconcile the model's plan with the spec: every page route and referenced
+ * component gets exactly one file, lib/types always exists, lib/api and the
+ * blueprint's own lib files are left to their templates, and dependencies
+ * only point at files that can be generated first.
+ */
+function normalizePlan(spec: AppSpec, planned: CodeFilePlan[]): CodeFilePlan[] {
+  const routes = new Set(spec.pages.map((page) => page.route));
+  const files = new Map<string, CodeFilePlan>();
+  const rendered = new Set(['api', ...blueprintLibNames(spec)]);
+
+  const add = (file: CodeFilePlan) => {
+    const key = `${file.kind}:${file.name}`;
+    if (!files.has(key)) files.set(key, file);
+  };
+
+  for (const file of planned) {
+    if (file.kind === 'page' && !routes.has(file.name)) continue;
+    const name = file.kind === 'lib' ? file.name.replace(/^lib\//, '').replace(/\.ts$/, '') : file.name;
+    if (file.kind === 'lib' && rendered.has(name)) continue;
+    add({ ...file, name });
+  }
+
+  add({ kind: 'lib', name: 'types', description: 'Shared TypeScript types for UI state, re-exporting the data model types from lib/api', dependsOn: [] });
+  for (const page of spec.pages) {
+    for (const component of page.components) {
+      add({ kind: 'component', name: component, description: `${component} component used on ${page.route}`, dependsOn: [] });
+    }
+  }
+  for (const page of spec.pages) {
+    add({ kind: 'page', name: page.route, description: `${page.title || 'Page'} at ${page.route}`, dependsOn: page.components });
+  }
+
+  const libNames = new Set(Array.from(files.values()).filter((f) => f.kind === 'lib').map((f) => f.name));
+  const componentNames = new Set(Array.from(files.values()).filter((f) => f.kind === 'component').map((f) => f.name));
+  const pageComponents = new Map(spec.pages.map((page) => [page.route, page.components]));
+
+  return Array.from(files.values()).map((file) => {
+    let dependsOn: string[];
+    if (file.kind === 'lib') {
+      dependsOn = file.name === 'types' ? [] : file.dependsOn.filter((d) => libNames.has(d));
+    } else {
+      const components = [
+        ...(file.kind === 'page' ? pageComponents.get(file.name) || [] : []),
+        ...file.dependsOn.filter((d) => componentNames.has(d)),
+      ];
+      dependsOn = [...REQUIRED_LIB_FILES, ...components];
+    }
+
+    return { ...file, dependsOn: Array.from(new Set(dependsOn)).filter((d) => d !== file.name) };
+  });
+}
+
+function resolveDependencies(file: CodeFilePlan, plan: CodeFilePlan[]): CodeFilePlan[] {
+  return file.dependsOn
+    .map((name) =>
+      plan.find((f) => f.kind === 'lib' && f.name === name) ||
+      (file.kind !== 'lib' ? plan.find((f) => f.kind === 'component' && f.name === name) : undefined)
+    )
+    .filter((f): f is CodeFilePlan => f !== undefined);
+}
+
+/**
+ * Group files into stages where each file only depends on earlier stages.
+ * Dependency cycles are broken by ignoring the edge that closes the cycle.
+ */
+function dependencyStages(plan: CodeFilePlan[]): CodeFilePlan[][] {
+  const levels = new Map<CodeFilePlan, number>();
+  const visiting = new Set<CodeFilePlan>();
+
+  const levelOf = (file: CodeFilePlan): number => {
+    const known = levels.get(file);
+    if (known !== undefined) return known;
+    if (visiting.has(file)) return -1;
+
+    visiting.add(file);
+    const level = 1 + Math.max(-1, ...resolveDependencies(file, plan).map(levelOf));
+    visiting.delete(file);
+
+    levels.set(file, level);
+    return level;
+  };
+
+  const stages: CodeFilePlan[][] = [];
+  for (const file of plan) {
+    const level = levelOf(file);
+    (stages[level] = stages[level] || []).push(file);
+  }
+
+  return stages.filter(Boolean);
+}
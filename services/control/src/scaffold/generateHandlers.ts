@@ -0,0 +1,42 @@
+import { AppSpec } from '@aws-vibe/shared';
+import { generateHandlerFile } from '../bedrock';
+import { AssumedCredentials } from '../util/aws';
+import { codegenConcurrency, mapWithConcurrency } from '../util/concurrency';
+import { resolveEndpointBindings } from './bindings';
+import { getBlueprint } from './blueprintRegistry';
+
+/**
+ * Generate Lambda handler bodies with the model.
+ *
+ * HANDLER_CODEGEN picks which endpoints get one: `auto` (default) only those
+ * the CRUD template can't express, `ai` every endpoint, `template` none.
+ * Handlers left out are rendered from the template for their bound table.
+ */
+export async function generateHandlers(
+  spec: AppSpec,
+  credentials: AssumedCredentials,
+  onStatus?: (step: string, message: string) => void
+): Promise<Record<string, string>> {
+  const handlers: Record<string, string> = {};
+  if (!getBlueprint(spec.blueprint).features.handlers) return handlers;
+
+  const mode = process.env.HANDLER_CODEGEN || 'auto';
+  if (mode === 'template') return handlers;
+
+  const concurrency = codegenConcurrency();
+  const bindings = resolveEndpointBindings(spec).filter((binding) => mode === 'ai' || binding.operation === 'custom');
+  if (bindings.length === 0) return handlers;
+
+  if (onStatus) onStatus('bedrock-handlers', `Generating ${bindings.length} API handlers with AI`);
+  let completed = 0;
+
+  await mapWithConcurrency(bindings, concurrency, async (binding) => {
+    handlers[binding.endpoint.handler] = await generateHandlerFile(spec, binding, credentials);
+
+    completed++;
+    console.log(`[Scaffold] Generated handler ${binding.endpoint.handler} (${completed}/${bindings.length})`);
+    if (onStatus) onStatus('bedrock-handlers', `Generated handler ${binding.endpoint.handler} (${completed}/${bindings.length})`);
+  });
+
+  return handlers;
+}
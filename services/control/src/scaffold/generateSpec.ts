@@ -1,15 +1,35 @@
-import { AppSpec, Blueprint } from '@aws-vibe/shared';
-import { generateSpec as invokeBedrockSpec, generateComponentCode } from '../bedrock';
+import { AppSpec, ConversationTurn, MockupImage } from '@aws-vibe/shared';
+import { generateSpec as invokeBedrockSpec, refineSpec } from '../bedrock';
 import { AssumedCredentials } from '../util/aws';
+import { relevantTurns } from './conversation';
+import { generateCode } from './generateCode';
+import { generateHandlers } from './generateHandlers';
+import { generateComponentTests } from './generateTests';
 
 /**
- * Orchestrate spec generation via Bedrock
+ * Orchestrate spec generation via Bedrock. Mockup images are used for both the
+ * spec and the web code.
  */
 export async function generateAppSpec(
   prompt: string,
-  blueprint: Blueprint,
+  blueprint: string,
   credentials: AssumedCredentials,
-  onStatus?: (step: string, message: string) => void
+  onStatus?: (step: string, message: string) => void,
+  images: MockupImage[] = []
+): Promise<AppSpec> {
+  const spec = await planAppSpec(prompt, blueprint, credentials, onStatus, images);
+  return generateAppCode(spec, credentials, onStatus, images);
+}
+
+/**
+ * Generate the spec only, without component code, so it can be reviewed before building
+ */
+export async function planAppSpec(
+  prompt: string,
+  blueprint: string,
+  credentials: AssumedCredentials,
+  onStatus?: (step: string, message: string) => void,
+  images: MockupImage[] = []
 ): Promise<AppSpec> {
   console.log(`[Scaffold] Generating app spec with blueprint: ${blueprint}`);
 
@@ -18,15 +38,33 @@ export async function generateAppSpec(
   const spec = await invokeBedrockSpec(
     prompt,
     blueprint,
-    credentials
+    credentials,
+    onStatus,
+    images
   );
 
   console.log(`[Scaffold] Generated spec for app: ${spec.name}`);
+  return spec;
+}
 
-  // Generate functional React component code
+/**
+ * Generate functional React component code for a spec
+ */
+export async function generateAppCode(
+  spec: AppSpec,
+  credentials: AssumedCredentials,
+  onStatus?: (step: string, message: string) => void,
+  images: MockupImage[] = []
+): Promise<AppSpec> {
   if (onStatus) onStatus('bedrock-components', 'Generating functional React components with AI');
   console.log(`[Scaffold] Generating functional React components`);
-  const generatedCode = await generateComponentCode(spec, credentials);
+  const generatedCode = await generateCode(spec, credentials, onStatus, images);
+
+  const handlers = await generateHandlers(spec, credentials, onStatus);
+  if (Object.keys(handlers).length > 0) generatedCode.handlers = handlers;
+
+  const tests = await generateComponentTests(spec, generatedCode, credentials, onStatus);
+  if (Object.keys(tests).length > 0) generatedCode.tests = tests;
 
   spec.generatedCode = generatedCode;
   console.log(`[Scaffold] Generated ${Object.keys(generatedCode.pages || {}).length} pages and ${Object.keys(generatedCode.components || {}).length} components`);
@@ -35,3 +73,51 @@ export async function generateAppSpec(
 
   return spec;
 }
+
+/**
+ * Orchestrate revision of an existing spec from a follow-up prompt. Earlier
+ * prompts from the app's conversation log are passed along as context.
+ */
+export async function refineAppSpec(
+  currentSpec: AppSpec,
+  prompt: string,
+  history: ConversationTurn[],
+  credentials: AssumedCredentials,
+  onStatus?: (step: string, message: string) => void
+): Promise<AppSpec> {
+  console.log(`[Scaffold] Refining app spec: ${currentSpec.name}`);
+
+  if (onStatus) onStatus('bedrock-spec', 'Revising app specification with AI');
+
+  const spec = await refineSpec(currentSpec, prompt, relevantTurns(history), credentials, onStatus);
+
+  // Component code only depends on pages, endpoints and data models
+  if (!hasUiChanges(currentSpec, spec) && currentSpec.generatedCode) {
+    console.log(`[Scaffold] Pages, API and data model unchanged, keeping generated components`);
+    spec.generatedCode = currentSpec.generatedCode;
+    return spec;
+  }
+
+  if (onStatus) onStatus('bedrock-components', 'Regenerating React components for the revised spec');
+  const generatedCode = await generateCode(spec, credentials, onStatus);
+
+  const handlers = await generateHandlers(spec, credentials, onStatus);
+  if (Object.keys(handlers).length > 0) generatedCode.handlers = handlers;
+
+  const tests = await generateComponentTests(spec, generatedCode, credentials, onStatus);
+  if (Object.keys(tests).length > 0) generatedCode.tests = tests;
+
+  spec.generatedCode = generatedCode;
+  if (onStatus) onStatus('bedrock-components', `Generated ${Object.keys(generatedCode.pages || {}).length} pages and ${Object.keys(generatedCode.components || {}).length} components`);
+
+  return spec;
+}
+
+/**
+ * Components are regenerated when what they render or call changes, including
+ * auth, since auth-enabled components use the auth provider
+ */
+function hasUiChanges(previous: AppSpec, next: AppSpec): boolean {
+  const shape = (spec: AppSpec) => JSON.stringify([spec.pages, spec.api, spec.dataModel, spec.auth]);
+  return shape(previous) !== shape(next);
+}
@@ -0,0 +1,44 @@
+import { AppSpec, GeneratedCode } from '@aws-vibe/shared';
+import { codeFilePath, generateComponentTest } from '../bedrock';
+import { AssumedCredentials } from '../util/aws';
+import { codegenConcurrency, mapWithConcurrency } from '../util/concurrency';
+import { apiClientContext } from './apiClient';
+
+/**
+ * Generate a render test for every generated component with the model.
+ *
+ * TEST_CODEGEN=off skips them. Handler tests need no model call; they are
+ * rendered from a template alongside each handler.
+ */
+export async function generateComponentTests(
+  spec: AppSpec,
+  code: GeneratedCode,
+  credentials: AssumedCredentials,
+  onStatus?: (step: string, message: string) => void
+): Promise<Record<string, string>> {
+  const tests: Record<string, string> = {};
+  if ((process.env.TEST_CODEGEN || 'on') === 'off') return tests;
+
+  const concurrency = codegenConcurrency();
+  const components = Object.keys(code.components);
+  if (components.length === 0) return tests;
+
+  // Tests mock lib/api and build props from lib/types, so both are passed along
+  const context = apiClientContext(spec, code);
+  for (const name of ['types', 'api']) {
+    if (code.lib[name]) context[codeFilePath({ kind: 'lib', name })] = code.lib[name];
+  }
+
+  if (onStatus) onStatus('bedrock-tests', `Generating render tests for ${components.length} components with AI`);
+  let completed = 0;
+
+  await mapWithConcurrency(components, concurrency, async (name) => {
+    tests[name] = await generateComponentTest(spec, name, code.components[name], context, credentials);
+
+    completed++;
+    console.log(`[Scaffold] Generated test for ${name} (${completed}/${components.length})`);
+    if (onStatus) onStatus('bedrock-tests', `Generated test for ${name} (${completed}/${components.length})`);
+  });
+
+  return tests;
+}
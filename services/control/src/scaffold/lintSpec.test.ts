@@ -0,0 +1,152 @@
+import { describe, expect, it } from '@jest/globals';
+import { AppSpec } from '@aws-vibe/shared';
+import { formatFinding, lintErrors, lintSpec } from './lintSpec';
+
+function todoSpec(): AppSpec {
+  return {
+    name: 'todo-app',
+    blueprint: 'serverless',
+    pages: [{ route: '/', components: ['TodoList'] }],
+    api: [
+      { path: '/todos', method: 'GET', handler: 'listTodos', table: 'Todos' },
+      { path: '/todos/{todoId}', method: 'GET', handler: 'getTodo', table: 'Todos' },
+    ],
+    dataModel: [
+      {
+        table: 'Todos',
+        partitionKey: 'todoId',
+        attributes: [
+          { name: 'todoId', type: 'string', required: true },
+          { name: 'title', type: 'string', required: true },
+        ],
+      },
+    ],
+    auth: false,
+    envVars: [],
+  };
+}
+
+function rules(spec: AppSpec): string[] {
+  return lintSpec(spec).findings.map((finding) => finding.rule);
+}
+
+describe('lintSpec', () => {
+  it('finds nothing in a consistent spec', () => {
+    expect(lintSpec(todoSpec()).findings).toEqual([]);
+  });
+
+  it('fixes a copy and leaves the input spec untouched', () => {
+    const input = todoSpec();
+    input.dataModel[0].attributes = [{ name: 'title', type: 'string' }];
+    const before = structuredClone(input);
+
+    const { spec, findings } = lintSpec(input);
+
+    expect(input).toEqual(before);
+    expect(findings).toEqual([
+      { rule: 'key-attribute', severity: 'warning', path: 'dataModel.0.partitionKey', message: 'key "todoId" is not in attributes', fixed: true },
+    ]);
+    expect(spec.dataModel[0].attributes[0]).toEqual({ name: 'todoId', type: 'string', required: true });
+  });
+
+  it('drops null sort keys from tables and indexes', () => {
+    const input = todoSpec();
+    Object.assign(input.dataModel[0], { sortKey: null, secondaryIndexes: [{ name: 'byTitle', partitionKey: 'title', sortKey: null }] });
+
+    const { spec, findings } = lintSpec(input);
+
+    expect(findings.map((finding) => finding.path)).toEqual(['dataModel.0.sortKey', 'dataModel.0.secondaryIndexes.0.sortKey']);
+    expect(spec.dataModel[0]).not.toHaveProperty('sortKey');
+    expect(spec.dataModel[0].secondaryIndexes![0]).not.toHaveProperty('sortKey');
+  });
+
+  it('renames an invalid table name along with the endpoints that use it', () => {
+    const input = todoSpec();
+    input.dataModel[0].table = 'todo-items';
+    input.api.forEach((endpoint) => { endpoint.table = 'todo-items'; });
+
+    const { spec, findings } = lintSpec(input);
+
+    expect(lintErrors(findings)).toEqual([]);
+    expect(spec.dataModel[0].table).toBe('todoItems');
+    expect(spec.api.map((endpoint) => endpoint.table)).toEqual(['todoItems', 'todoItems']);
+  });
+
+  it('leaves a table name unfixed when the fix would collide with another table', () => {
+    const input = todoSpec();
+    input.dataModel.push({ ...structuredClone(input.dataModel[0]), table: 'todo-s' });
+
+    const errors = lintErrors(lintSpec(input).findings);
+
+    expect(errors.map((finding) => finding.rule)).toEqual(['table-name']);
+    expect(errors[0].path).toBe('dataModel.1.table');
+  });
+
+  it('turns non-string keys into strings and adds missing index keys', () => {
+    const input = todoSpec();
+    input.dataModel[0].attributes.push({ name: 'priority', type: 'number' });
+    input.dataModel[0].secondaryIndexes = [
+      { name: 'byPriority', partitionKey: 'priority' },
+      { name: 'byOwner', partitionKey: 'ownerId' },
+    ];
+
+    const { spec, findings } = lintSpec(input);
+
+    expect(findings.map((finding) => finding.rule)).toEqual(['index-key-attribute', 'key-type']);
+    expect(lintErrors(findings)).toEqual([]);
+    expect(spec.dataModel[0].attributes.slice(2)).toEqual([
+      { name: 'priority', type: 'string' },
+      { name: 'ownerId', type: 'string' },
+    ]);
+  });
+
+  it('removes duplicate attributes and env vars, keeping the first', () => {
+    const input = todoSpec();
+    input.dataModel[0].attributes.push({ name: 'title', type: 'number' });
+    input.envVars = [
+      { name: 'API_KEY', description: 'first' },
+      { name: 'API_KEY', description: 'second' },
+    ];
+
+    const { spec } = lintSpec(input);
+
+    expect(spec.dataModel[0].attributes.map((attribute) => attribute.type)).toEqual(['string', 'string']);
+    expect(spec.envVars).toEqual([{ name: 'API_KEY', description: 'first' }]);
+  });
+
+  it('reports endpoints, handlers and pages that collide as unfixable errors', () => {
+    const input = todoSpec();
+    input.api.push(
+      { path: '/todos/{id}', method: 'GET', handler: 'GetTodo' },
+      { path: '/todos/{id}', method: 'DELETE', handler: 'deleteTodo' }
+    );
+    input.pages.push({ route: '/', components: ['TodoList'] });
+
+    const errors = lintErrors(lintSpec(input).findings);
+
+    expect(errors.map(formatFinding)).toEqual([
+      'api.2: GET /todos/{id} duplicates api.1 (GET /todos/{todoId})',
+      'api.2.handler: handler "GetTodo" is also used by api.1; each endpoint needs its own Lambda function and file',
+      'api.2.path: {id} conflicts with {todoId} in api.1; path parameters at the same position must share a name',
+      'api.3.path: {id} conflicts with {todoId} in api.1; path parameters at the same position must share a name',
+      'pages.1.route: route / duplicates pages.0',
+    ]);
+  });
+
+  it('warns about endpoints that require auth when auth is disabled', () => {
+    const input = todoSpec();
+    input.api[0].requiresAuth = true;
+
+    expect(rules(input)).toEqual(['auth-disabled']);
+
+    input.auth = true;
+    expect(rules(input)).toEqual([]);
+  });
+
+  it('warns about page components that were never generated', () => {
+    const input = todoSpec();
+    input.generatedCode = { pages: {}, components: {}, lib: {} };
+
+    expect(lintSpec(input).findings.map(formatFinding)).toEqual(['pages.0.components: component TodoList was never generated']);
+  });
+});
@@ -0,0 +1,328 @@
+import { AppSpec, AttributeSpec, DataModelSpec, LintFinding, LintSeverity } from '@aws-vibe/shared';
+
+/**
+ * A problem found by a rule. fix corrects it on the spec the rule was given.
+ */
+interface LintIssue {
+  path: string;
+  message: string;
+  fix?: () => void;
+}
+
+interface LintRule {
+  id: string;
+  severity: LintSeverity;
+  check: (spec: AppSpec) => LintIssue[];
+}
+
+export interface LintResult {
+  /** The spec with every auto-fix applied */
+  spec: AppSpec;
+  findings: LintFinding[];
+}
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const MAX_TABLE_NAME = 200; // leaves room for the app-env- prefix in DynamoDB's 255
+const MAX_GSIS = 20;
+
+/**
+ * Cross-reference checks the schema can't express. Each rule either reports
+ * or, where the fix is unambiguous, corrects the spec in place. Rules run in
+ * order against the spec as fixed by the rules before them.
+ */
+const rules: LintRule[] = [
+  {
+    id: 'null-sort-key',
+    severity: 'warning',
+    check: (spec) => spec.dataModel.flatMap((model, i) => [
+      ...(model.sortKey === null
+        ? [{ path: `dataModel.${i}.sortKey`, message: 'sortKey is null; leave it out instead', fix: () => { delete model.sortKey; } }]
+        : []),
+      ...(model.secondaryIndexes || []).flatMap((index, j) => index.sortKey === null
+        ? [{ path: `dataModel.${i}.secondaryIndexes.${j}.sortKey`, message: 'sortKey is null; leave it out instead', fix: () => { delete index.sortKey; } }]
+        : []),
+    ]),
+  },
+  {
+    id: 'table-name',
+    severity: 'error',
+    check: (spec) => spec.dataModel.flatMap((model, i) => {
+      if (IDENTIFIER.test(model.table) && model.table.length <= MAX_TABLE_NAME) return [];
+
+      const renamed = toIdentifier(model.table).slice(0, MAX_TABLE_NAME);
+      const taken = spec.dataModel.some((other) => other !== model && other.table.toLowerCase() === renamed.toLowerCase());
+      return [{
+        path: `dataModel.${i}.table`,
+        message: `"${model.table}" must be a valid identifier of at most ${MAX_TABLE_NAME} characters, as it names the DynamoDB table and its CDK construct`,
+        fix: renamed && !taken ? () => renameTable(spec, model, renamed) : undefined,
+      }];
+    }),
+  },
+  {
+    id: 'duplicate-table',
+    severity: 'error',
+    check: (spec) => duplicates(spec.dataModel, (model) => model.table.toLowerCase()).map(([i, first]) => ({
+      path: `dataModel.${i}.table`,
+      message: `"${spec.dataModel[i].table}" collides with dataModel.${first}; table names must differ by more than case`,
+    })),
+  },
+  {
+    id: 'duplicate-attribute',
+    severity: 'warning',
+    check: (spec) => spec.dataModel.flatMap((model, i) =>
+      duplicates(model.attributes, (attribute) => attribute.name).map(([j, first]) => {
+        const attribute = model.attributes[j];
+        return {
+          path: `dataModel.${i}.attributes.${j}`,
+          message: `"${attribute.name}" is already declared at attributes.${first}`,
+          fix: () => { model.attributes = model.attributes.filter((other) => other !== attribute); },
+        };
+      })
+    ),
+  },
+  {
+    id: 'key-attribute',
+    severity: 'warning',
+    check: (spec) => spec.dataModel.flatMap((model, i) =>
+      tableKeys(model)
+        .filter(({ name }) => !findAttribute(model, name))
+        .map(({ field, name }) => ({
+          path: `dataModel.${i}.${field}`,
+          message: `key "${name}" is not in attributes`,
+          fix: () => { model.attributes.unshift({ name, type: 'string', required: true }); },
+        }))
+    ),
+  },
+  {
+    id: 'index-key-attribute',
+    severity: 'error',
+    check: (spec) => spec.dataModel.flatMap((model, i) =>
+      indexKeys(model)
+        .filter(({ name }) => !findAttribute(model, name))
+        .map(({ field, name }) => ({
+          path: `dataModel.${i}.${field}`,
+          message: `index key "${name}" is not in attributes`,
+          fix: () => {
+            if (!findAttribute(model, name)) model.attributes.push({ name, type: 'string' });
+          },
+        }))
+    ),
+  },
+  {
+    id: 'key-type',
+    severity: 'error',
+    check: (spec) => spec.dataModel.flatMap((model, i) =>
+      [...tableKeys(model), ...indexKeys(model)].flatMap(({ field, name }) => {
+        const attribute = findAttribute(model, name);
+        if (!attribute || attribute.type === 'string') return [];
+        return [{
+          path: `dataModel.${i}.${field}`,
+          message: `key "${name}" is a ${attribute.type}, but table and index keys are created as strings`,
+          fix: () => { attribute.type = 'string'; },
+        }];
+      })
+    ),
+  },
+  {
+    id: 'duplicate-index',
+    severity: 'error',
+    check: (spec) => spec.dataModel.flatMap((model, i) => {
+      const indexes = model.secondaryIndexes || [];
+      return [
+        ...duplicates(indexes, (index) => index.name).map(([j, first]) => ({
+          path: `dataModel.${i}.secondaryIndexes.${j}.name`,
+          message: `index "${indexes[j].name}" is already declared at secondaryIndexes.${first}`,
+        })),
+        ...(indexes.length > MAX_GSIS
+          ? [{ path: `dataModel.${i}.secondaryIndexes`, message: `${indexes.length} indexes; DynamoDB allows at most ${MAX_GSIS} per table` }]
+          : []),
+      ];
+    }),
+  },
+  {
+    id: 'duplicate-endpoint',
+    severity: 'error',
+    check: (spec) => duplicates(spec.api, (endpoint) => `${endpoint.method} ${routeShape(endpoint.path)}`).map(([i, first]) => ({
+      path: `api.${i}`,
+      message: `${spec.api[i].method} ${spec.api[i].path} duplicates api.${first} (${spec.api[first].method} ${spec.api[first].path})`,
+    })),
+  },
+  {
+    id: 'duplicate-handler',
+    severity: 'error',
+    check: (spec) => duplicates(spec.api, (endpoint) => endpoint.handler.toLowerCase()).map(([i, first]) => ({
+      path: `api.${i}.handler`,
+      message: `handler "${spec.api[i].handler}" is also used by api.${first}; each endpoint needs its own Lambda function and file`,
+    })),
+  },
+  {
+    id: 'path-param-name',
+    severity: 'error',
+    check: (spec) => {
+      // API Gateway rejects sibling resources like /todos/{id} and /todos/{todoId}
+      const names = new Map<string, { name: string; index: number }>();
+      const issues: LintIssue[] = [];
+
+      spec.api.forEach((endpoint, i) => {
+        const segments = endpoint.path.split('/').filter(Boolean);
+        segments.forEach((segment, position) => {
+          if (!isParam(segment)) return;
+          const parent = routeShape(`/${segments.slice(0, position).join('/')}`);
+          const seen = names.get(parent);
+          if (!seen) {
+            names.set(parent, { name: segment, index: i });
+          } else if (seen.name !== segment) {
+            issues.push({
+              path: `api.${i}.path`,
+              message: `${segment} conflicts with ${seen.name} in api.${seen.index}; path parameters at the same position must share a name`,
+            });
+          }
+        });
+      });
+
+      return issues;
+    },
+  },
+  {
+    id: 'auth-disabled',
+    severity: 'warning',
+    check: (spec) => spec.auth
+      ? []
+      : spec.api.flatMap((endpoint, i) => endpoint.requiresAuth
+        ? [{ path: `api.${i}.requiresAuth`, message: `${endpoint.method} ${endpoint.path} requires auth, but auth is disabled so it is public` }]
+        : []),
+  },
+  {
+    id: 'duplicate-page',
+    severity: 'error',
+    check: (spec) => duplicates(spec.pages, (page) => routeShape(page.route)).map(([i, first]) => ({
+      path: `pages.${i}.route`,
+      message: `route ${spec.pages[i].route} duplicates pages.${first}`,
+    })),
+  },
+  {
+    id: 'missing-component',
+    severity: 'warning',
+    check: (spec) => {
+      const components = spec.generatedCode?.components;
+      if (!components) return [];
+      return spec.pages.flatMap((page, i) => page.components
+        .filter((name) => !(name in components))
+        .map((name) => ({ path: `pages.${i}.components`, message: `component ${name} was never generated` })));
+    },
+  },
+  {
+    id: 'duplicate-env-var',
+    severity: 'warning',
+    check: (spec) => duplicates(spec.envVars, (envVar) => envVar.name).map(([i, first]) => {
+      const envVar = spec.envVars[i];
+      return {
+        path: `envVars.${i}`,
+        message: `${envVar.name} is already declared at envVars.${first}`,
+        fix: () => { spec.envVars = spec.envVars.filter((other) => other !== envVar); },
+      };
+    }),
+  },
+];
+
+/**
+ * Lint a validated spec, returning a copy with every auto-fixable finding
+ * corrected. The input spec is left untouched.
+ */
+export function lintSpec(input: AppSpec): LintResult {
+  const spec = structuredClone(input);
+  const findings: LintFinding[] = [];
+
+  for (const rule of rules) {
+    const issues = rule.check(spec);
+    for (const issue of issues) {
+      findings.push({
+        rule: rule.id,
+        severity: rule.severity,
+        path: issue.path,
+        message: issue.message,
+        ...(issue.fix ? { fixed: true } : {}),
+      });
+    }
+    // Fixes run after the rule's checks so its paths refer to the spec it saw
+    issues.forEach((issue) => issue.fix?.());
+  }
+
+  return { spec, findings };
+}
+
+/**
+ * Errors the linter could not fix, which block building the spec
+ */
+export function lintErrors(findings: LintFinding[]): LintFinding[] {
+  return findings.filter((finding) => finding.severity === 'error' && !finding.fixed);
+}
+
+export function formatFinding(finding: LintFinding): string {
+  return `${finding.path}: ${finding.message}${finding.fixed ? ' (fixed)' : ''}`;
+}
+
+/**
+ * Index and first index of every item whose key was already seen
+ */
+function duplicates<T>(items: T[], key: (item: T) => string): Array<[number, number]> {
+  const first = new Map<string, number>();
+  const found: Array<[number, number]> = [];
+  items.forEach((item, i) => {
+    const k = key(item);
+    if (first.has(k)) found.push([i, first.get(k)!]);
+    else first.set(k, i);
+  });
+  return found;
+}
+
+function tableKeys(model: DataModelSpec): Array<{ field: string; name: string }> {
+  return [
+    { field: 'partitionKey', name: model.partitionKey },
+    ...(model.sortKey ? [{ field: 'sortKey', name: model.sortKey }] : []),
+  ];
+}
+
+function indexKeys(model: DataModelSpec): Array<{ field: string; name: string }> {
+  return (model.secondaryIndexes || []).flatMap((index, j) => [
+    { field: `secondaryIndexes.${j}.partitionKey`, name: index.partitionKey },
+    ...(index.sortKey ? [{ field: `secondaryIndexes.${j}.sortKey`, name: index.sortKey }] : []),
+  ]);
+}
+
+function findAttribute(model: DataModelSpec, name: string): AttributeSpec | undefined {
+  return model.attributes.find((attribute) => attribute.name === name);
+}
+
+/**
+ * Rename a table along with the endpoints that name it
+ */
+function renameTable(spec: AppSpec, model: DataModelSpec, table: string): void {
+  for (const endpoint of spec.api) {
+    if (endpoint.table && endpoint.table.toLowerCase() === model.table.toLowerCase()) endpoint.table = table;
+  }
+  model.table = table;
+}
+
+/**
+ * order-items -> orderItems, 2024sales -> t2024sales
+ */
+function toIdentifier(name: string): string {
+  const camel = name.replace(/[^A-Za-z0-9_]+(.)?/g, (_, next: string | undefined) => (next ? next.toUpperCase() : ''));
+  return /^[0-9]/.test(camel) ? `t${camel}` : camel;
+}
+
+/**
+ * Route with parameter names dropped, so /todos/{id} and /todos/{todoId} compare equal
+ */
+function routeShape(route: string): string {
+  return route
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => (isParam(segment) || segment.startsWith('[') ? '{}' : segment))
+    .join('/');
+}
+
+function isParam(segment: string): boolean {
+  return segment.startsWith('{') && segment.endsWith('}');
+}
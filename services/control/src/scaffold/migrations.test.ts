@@ -0,0 +1,168 @@
+import { describe, expect, it } from '@jest/globals';
+import { DataModelSpec } from '@aws-vibe/shared';
+import { DatabaseSchema, databaseSchema, migrationStatements, retainRetired } from './migrations';
+
+const users: DataModelSpec = {
+  table: 'Users',
+  partitionKey: 'userId',
+  attributes: [
+    { name: 'userId', type: 'string', required: true },
+    { name: 'email', type: 'string', required: true },
+    { name: 'age', type: 'number' },
+  ],
+};
+
+const orders: DataModelSpec = {
+  table: 'Orders',
+  partitionKey: 'orderId',
+  attributes: [
+    { name: 'orderId', type: 'string', required: true },
+    { name: 'total', type: 'number', required: true },
+  ],
+  secondaryIndexes: [{ name: 'byTotal', partitionKey: 'total' }],
+};
+
+/**
+ * Apply each data model in turn the way writeMigrations does, returning the
+ * statements of the last step and the snapshot it leaves
+ */
+function migrate(...steps: DataModelSpec[][]): { statements: string[]; snapshot: DatabaseSchema } {
+  let snapshot: DatabaseSchema = {};
+  let statements: string[] = [];
+  for (const dataModel of steps) {
+    const next = retainRetired(snapshot, databaseSchema(dataModel));
+    statements = migrationStatements(snapshot, next);
+    snapshot = next;
+  }
+  return { statements, snapshot };
+}
+
+function withAttributes(model: DataModelSpec, attributes: DataModelSpec['attributes']): DataModelSpec {
+  return { ...model, attributes };
+}
+
+describe('migrationStatements', () => {
+  it('creates new tables with NOT NULL keys and required columns, and their indexes', () => {
+    const { statements } = migrate([orders]);
+
+    expect(statements).toEqual([
+      'CREATE TABLE "Orders" (\n' +
+        '  "orderId" TEXT NOT NULL,\n' +
+        '  "total" DOUBLE PRECISION NOT NULL,\n' +
+        '  CONSTRAINT "Orders_pkey" PRIMARY KEY ("orderId")\n' +
+        ');',
+      'CREATE INDEX "Orders_byTotal" ON "Orders" ("total");',
+    ]);
+  });
+
+  it('writes nothing for an unchanged data model', () => {
+    expect(migrate([users], [users]).statements).toEqual([]);
+  });
+
+  it('adds new columns as nullable, even when required', () => {
+    const { statements } = migrate([users], [withAttributes(users, [...users.attributes, { name: 'name', type: 'string', required: true }])]);
+
+    expect(statements).toEqual(['ALTER TABLE "Users" ADD COLUMN "name" TEXT;']);
+  });
+
+  it('changes a column type with a cast, and to JSONB through to_jsonb', () => {
+    const { statements } = migrate(
+      [users],
+      [withAttributes(users, [users.attributes[0], { name: 'email', type: 'map', required: true }, { name: 'age', type: 'string' }])]
+    );
+
+    expect(statements).toEqual([
+      'ALTER TABLE "Users" ALTER COLUMN "email" TYPE JSONB USING to_jsonb("email");',
+      'ALTER TABLE "Users" ALTER COLUMN "age" TYPE TEXT USING "age"::TEXT;',
+    ]);
+  });
+
+  it('drops NOT NULL from a column that is no longer required, but does not add it to one that now is', () => {
+    const { statements } = migrate(
+      [users],
+      [withAttributes(users, [users.attributes[0], { name: 'email', type: 'string' }, { name: 'age', type: 'number', required: true }])]
+    );
+
+    expect(statements).toEqual([
+      'ALTER TABLE "Users" ALTER COLUMN "email" DROP NOT NULL;',
+      '-- "age" is now required; existing rows may be NULL, so NOT NULL is not added',
+    ]);
+  });
+
+  it('keeps a removed column with its data and drops its NOT NULL', () => {
+    const { statements, snapshot } = migrate([users], [withAttributes(users, [users.attributes[0], users.attributes[2]])]);
+
+    expect(statements).toEqual([
+      '-- Column "email" was removed from the spec; it is kept with its data',
+      'ALTER TABLE "Users" ALTER COLUMN "email" DROP NOT NULL;',
+    ]);
+    expect(snapshot.Users.columns.email).toEqual({ type: 'TEXT', notNull: false, retired: true });
+  });
+
+  it('reuses a removed column that is added back instead of adding it again', () => {
+    const withoutEmail = withAttributes(users, [users.attributes[0], users.attributes[2]]);
+
+    expect(migrate([users], [withoutEmail], [withoutEmail]).statements).toEqual([]);
+    expect(migrate([users], [withoutEmail], [users]).statements).toEqual([
+      '-- "email" is now required; existing rows may be NULL, so NOT NULL is not added',
+    ]);
+    expect(migrate([users], [withoutEmail], [withAttributes(users, [users.attributes[0], { name: 'email', type: 'list' }, users.attributes[2]])]).statements).toEqual([
+      'ALTER TABLE "Users" ALTER COLUMN "email" TYPE JSONB USING to_jsonb("email");',
+    ]);
+  });
+
+  it('keeps a removed table with its data and reuses it when it is added back', () => {
+    const removed = migrate([users, orders], [users]);
+    expect(removed.statements).toEqual(['-- Table "Orders" was removed from the spec; it is kept with its data']);
+    expect(removed.snapshot.Orders.retired).toBe(true);
+
+    expect(migrate([users, orders], [users], [users]).statements).toEqual([]);
+    expect(migrate([users, orders], [users], [users, orders]).statements).toEqual([
+      '-- Table "Orders" is back in the spec; the kept table is reused',
+    ]);
+  });
+
+  it('alters a table that comes back with different columns', () => {
+    const { statements } = migrate(
+      [users, orders],
+      [users],
+      [users, withAttributes(orders, [orders.attributes[0], { name: 'status', type: 'string' }])]
+    );
+
+    expect(statements).toEqual([
+      '-- Table "Orders" is back in the spec; the kept table is reused',
+      'ALTER TABLE "Orders" ADD COLUMN "status" TEXT;',
+      '-- Column "total" was removed from the spec; it is kept with its data',
+      'ALTER TABLE "Orders" ALTER COLUMN "total" DROP NOT NULL;',
+    ]);
+  });
+
+  it('replaces the primary key constraint when the key changes', () => {
+    const { statements } = migrate([users], [{ ...users, sortKey: 'email' }]);
+
+    expect(statements).toEqual([
+      'ALTER TABLE "Users" DROP CONSTRAINT "Users_pkey", ADD CONSTRAINT "Users_pkey" PRIMARY KEY ("userId", "email");',
+    ]);
+  });
+
+  it('drops NOT NULL from a removed key column only after the key no longer includes it', () => {
+    const keyed: DataModelSpec = { ...users, sortKey: 'email' };
+    const { statements } = migrate([keyed], [withAttributes(users, [users.attributes[0], users.attributes[2]])]);
+
+    expect(statements).toEqual([
+      'ALTER TABLE "Users" DROP CONSTRAINT "Users_pkey", ADD CONSTRAINT "Users_pkey" PRIMARY KEY ("userId");',
+      '-- Column "email" was removed from the spec; it is kept with its data',
+      'ALTER TABLE "Users" ALTER COLUMN "email" DROP NOT NULL;',
+    ]);
+  });
+
+  it('recreates a secondary index whose columns change and drops one that is removed', () => {
+    const changed = migrate([orders], [{ ...orders, secondaryIndexes: [{ name: 'byTotal', partitionKey: 'orderId', sortKey: 'total' }] }]);
+    expect(changed.statements).toEqual([
+      'DROP INDEX IF EXISTS "Orders_byTotal";',
+      'CREATE INDEX "Orders_byTotal" ON "Orders" ("orderId", "total");',
+    ]);
+
+    expect(migrate([orders], [{ ...orders, secondaryIndexes: [] }]).statements).toEqual(['DROP INDEX IF EXISTS "Orders_byTotal";']);
+  });
+});
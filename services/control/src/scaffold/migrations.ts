@@ -0,0 +1,257 @@
+import * as path from 'path';
+import { AttributeSpec, DataModelSpec } from '@aws-vibe/shared';
+import { exists, listDir, readJson, writeFile, writeJson } from '../util/fsx';
+
+/**
+ * Repo-relative directory of the SQL migrations and the schema snapshot they lead to
+ */
+export const MIGRATIONS_DIR = path.join('api', 'migrations');
+const SNAPSHOT_FILE = 'schema.json';
+
+const HEADER = '-- Generated from the app spec\'s dataModel. Do not edit: later changes are added as new migrations.';
+const MIGRATION_FILE = /^(\d{4})_[\w-]+\.sql$/;
+const MAX_IDENTIFIER = 63; // Postgres truncates longer names
+
+interface ColumnSchema {
+  type: string;
+  notNull: boolean;
+  /** Removed from the spec but still in the database */
+  retired?: boolean;
+}
+
+interface TableSchema {
+  columns: Record<string, ColumnSchema>;
+  primaryKey: string[];
+  indexes: Record<string, string[]>;
+  /** Removed from the spec but still in the database */
+  retired?: boolean;
+}
+
+/**
+ * Tables by name, as the migrations written so far leave the database,
+ * including the ones removed from the spec
+ */
+export type DatabaseSchema = Record<string, TableSchema>;
+
+const COLUMN_TYPES: Record<AttributeSpec['type'], string> = {
+  string: 'TEXT',
+  number: 'DOUBLE PRECISION',
+  boolean: 'BOOLEAN',
+  list: 'JSONB',
+  map: 'JSONB',
+};
+
+export function columnType(type: AttributeSpec['type']): string {
+  return COLUMN_TYPES[type];
+}
+
+/**
+ * The Postgres table for a model. Keys missing from attributes become text
+ * columns; required attributes and keys are NOT NULL.
+ */
+export function tableSchema(model: DataModelSpec): TableSchema {
+  const primaryKey = [model.partitionKey, ...(model.sortKey ? [model.sortKey] : [])];
+  const columns: Record<string, ColumnSchema> = {};
+
+  for (const key of primaryKey) {
+    const attribute = model.attributes.find((candidate) => candidate.name === key);
+    columns[key] = { type: attribute ? columnType(attribute.type) : 'TEXT', notNull: true };
+  }
+  for (const attribute of model.attributes) {
+    if (columns[attribute.name]) continue;
+    columns[attribute.name] = { type: columnType(attribute.type), notNull: Boolean(attribute.required) };
+  }
+
+  const indexes: Record<string, string[]> = {};
+  for (const index of model.secondaryIndexes || []) {
+    indexes[index.name] = [index.partitionKey, ...(index.sortKey ? [index.sortKey] : [])];
+  }
+
+  return { columns, primaryKey, indexes };
+}
+
+export function databaseSchema(dataModel: DataModelSpec[]): DatabaseSchema {
+  return Object.fromEntries(dataModel.map((model) => [model.table, tableSchema(model)]));
+}
+
+/**
+ * The spec's schema plus the tables and columns of the previous one that it
+ * no longer has, marked retired. Retired columns are nullable, as the
+ * migration that retires them drops NOT NULL.
+ */
+export function retainRetired(previous: DatabaseSchema, current: DatabaseSchema): DatabaseSchema {
+  const next: DatabaseSchema = { ...current };
+
+  for (const [table, before] of Object.entries(previous)) {
+    const schema = next[table];
+    if (!schema) {
+      next[table] = { ...before, retired: true };
+      continue;
+    }
+    const columns = { ...schema.columns };
+    for (const [name, column] of Object.entries(before.columns)) {
+      if (!columns[name]) columns[name] = { type: column.type, notNull: false, retired: true };
+    }
+    next[table] = { ...schema, columns };
+  }
+
+  return next;
+}
+
+/**
+ * SQL that takes the database from one schema to the next, where next comes
+ * from retainRetired. Nothing is dropped along with its data: removed tables
+ * and columns are kept, removed columns only lose NOT NULL, and ones that
+ * come back are altered to match rather than created again. Columns added to
+ * existing tables are nullable, since the table may already have rows.
+ */
+export function migrationStatements(previous: DatabaseSchema, next: DatabaseSchema): string[] {
+  const statements: string[] = [];
+
+  for (const [table, schema] of Object.entries(next)) {
+    const before = previous[table];
+    if (schema.retired) {
+      if (before && !before.retired) {
+        statements.push(`-- Table ${quote(table)} was removed from the spec; it is kept with its data`);
+      }
+      continue;
+    }
+    if (!before) {
+      statements.push(createTable(table, schema));
+      for (const [index, columns] of Object.entries(schema.indexes)) {
+        statements.push(createIndex(table, index, columns));
+      }
+      continue;
+    }
+    if (before.retired) {
+      statements.push(`-- Table ${quote(table)} is back in the spec; the kept table is reused`);
+    }
+    statements.push(...alterTable(table, before, schema));
+  }
+
+  return statements;
+}
+
+/**
+ * Add a numbered migration for whatever changed in the data model since the
+ * schema snapshot, and update the snapshot. Re-rendering an unchanged data
+ * model writes nothing, so migrations that already ran are never rewritten.
+ */
+export async function writeMigrations(repoPath: string, dataModel: DataModelSpec[]): Promise<void> {
+  const dir = path.join(repoPath, MIGRATIONS_DIR);
+  const snapshotPath = path.join(dir, SNAPSHOT_FILE);
+
+  const previous: DatabaseSchema = (await exists(snapshotPath)) ? await readJson(snapshotPath) : {};
+  const next = retainRetired(previous, databaseSchema(dataModel));
+  if (JSON.stringify(previous) === JSON.stringify(next)) return;
+
+  const statements = migrationStatements(previous, next);
+  if (statements.length > 0) {
+    const existing = (await exists(dir)) ? (await listDir(dir)).filter((file) => MIGRATION_FILE.test(file)) : [];
+    const version = Math.max(0, ...existing.map((file) => parseInt(file.match(MIGRATION_FILE)![1], 10))) + 1;
+    const file = `${String(version).padStart(4, '0')}_${migrationName(previous, next)}.sql`;
+
+    await writeFile(path.join(dir, file), `${HEADER}\n\n${statements.join('\n\n')}\n`);
+    console.log(`[Scaffold] Wrote migration: ${path.join(MIGRATIONS_DIR, file)}`);
+  }
+
+  await writeJson(snapshotPath, next);
+}
+
+function createTable(table: string, schema: TableSchema): string {
+  const lines = [
+    ...Object.entries(schema.columns).map(([name, column]) => `  ${columnDefinition(name, column)}`),
+    `  CONSTRAINT ${quote(primaryKeyName(table))} PRIMARY KEY (${schema.primaryKey.map(quote).join(', ')})`,
+  ];
+  return `CREATE TABLE ${quote(table)} (\n${lines.join(',\n')}\n);`;
+}
+
+function alterTable(table: string, before: TableSchema, after: TableSchema): string[] {
+  const statements: string[] = [];
+  const alter = (change: string) => statements.push(`ALTER TABLE ${quote(table)} ${change};`);
+  const retiring: string[] = [];
+
+  for (const [name, column] of Object.entries(after.columns)) {
+    const previous = before.columns[name];
+    if (column.retired) {
+      if (previous && !previous.retired) retiring.push(name);
+      continue;
+    }
+    if (!previous) {
+      alter(`ADD COLUMN ${quote(name)} ${column.type}`);
+      continue;
+    }
+    if (previous.type !== column.type) {
+      alter(`ALTER COLUMN ${quote(name)} TYPE ${column.type} USING ${castColumn(name, column.type)}`);
+    }
+    if (previous.notNull && !column.notNull) {
+      alter(`ALTER COLUMN ${quote(name)} DROP NOT NULL`);
+    } else if (!previous.notNull && column.notNull && !after.primaryKey.includes(name)) {
+      statements.push(`-- ${quote(name)} is now required; existing rows may be NULL, so NOT NULL is not added`);
+    }
+  }
+
+  if (before.primaryKey.join() !== after.primaryKey.join()) {
+    const constraint = quote(primaryKeyName(table));
+    alter(`DROP CONSTRAINT ${constraint}, ADD CONSTRAINT ${constraint} PRIMARY KEY (${after.primaryKey.map(quote).join(', ')})`);
+  }
+
+  // After the primary key changes, since a key column keeps NOT NULL while in the key
+  for (const name of retiring) {
+    statements.push(`-- Column ${quote(name)} was removed from the spec; it is kept with its data`);
+    if (before.columns[name].notNull) alter(`ALTER COLUMN ${quote(name)} DROP NOT NULL`);
+  }
+
+  for (const [index, columns] of Object.entries(before.indexes)) {
+    if (after.indexes[index]?.join() !== columns.join()) {
+      statements.push(`DROP INDEX IF EXISTS ${quote(indexName(table, index))};`);
+    }
+  }
+  for (const [index, columns] of Object.entries(after.indexes)) {
+    if (before.indexes[index]?.join() !== columns.join()) {
+      statements.push(createIndex(table, index, columns));
+    }
+  }
+
+  return statements;
+}
+
+function createIndex(table: string, index: string, columns: string[]): string {
+  return `CREATE INDEX ${quote(indexName(table, index))} ON ${quote(table)} (${columns.map(quote).join(', ')});`;
+}
+
+function columnDefinition(name: string, column: ColumnSchema): string {
+  return `${quote(name)} ${column.type}${column.notNull ? ' NOT NULL' : ''}`;
+}
+
+function castColumn(name: string, type: string): string {
+  return type === 'JSONB' ? `to_jsonb(${quote(name)})` : `${quote(name)}::${type}`;
+}
+
+function primaryKeyName(table: string): string {
+  return `${table}_pkey`.slice(0, MAX_IDENTIFIER);
+}
+
+function indexName(table: string, index: string): string {
+  return `${table}_${index}`.slice(0, MAX_IDENTIFIER);
+}
+
+/**
+ * init for the first migration, else the tables it changes: 0003_orders_users.sql
+ */
+function migrationName(previous: DatabaseSchema, next: DatabaseSchema): string {
+  if (Object.keys(previous).length === 0) return 'init';
+
+  const changed = [...new Set([...Object.keys(previous), ...Object.keys(next)])]
+    .filter((table) => JSON.stringify(previous[table]) !== JSON.stringify(next[table]))
+    .map((table) => table.toLowerCase());
+  return changed.slice(0, 3).join('_').slice(0, 60) || 'update';
+}
+
+/**
+ * Table and column names are identifiers checked by the spec linter, quoted
+ * so their case is kept and rows come back with the spec's attribute names
+ */
+function quote(name: string): string {
+  return `"${name}"`;
+}
@@ -0,0 +1,51 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { ImageMediaType, MockupImage } from '@aws-vibe/shared';
+import { ensureDir } from '../util/fsx';
+
+const WORK_DIR = '/work';
+
+const EXTENSIONS: Record<ImageMediaType, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+/**
+ * Save a draft's mockup images under .vibe/mockups so building it later can
+ * show them to the model again. Returns their paths relative to .vibe/.
+ */
+export async function saveMockups(appId: string, images: MockupImage[]): Promise<string[]> {
+  const vibeDir = path.join(WORK_DIR, appId, '.vibe');
+  await ensureDir(path.join(vibeDir, 'mockups'));
+
+  const files: string[] = [];
+  for (const [index, image] of images.entries()) {
+    const base = (image.name || 'mockup').replace(/\.[^.]*$/, '').replace(/[^a-zA-Z0-9-]+/g, '-').slice(0, 40);
+    const file = path.posix.join('mockups', `${index + 1}-${base}.${EXTENSIONS[image.mediaType]}`);
+    await fs.writeFile(path.join(vibeDir, file), Buffer.from(image.data, 'base64'));
+    files.push(file);
+  }
+
+  console.log(`[Scaffold] Saved ${files.length} mockups for ${appId}`);
+  return files;
+}
+
+/**
+ * Read saved mockups back, with their media type taken from the extension
+ */
+export async function loadMockups(appId: string, files: string[]): Promise<MockupImage[]> {
+  const vibeDir = path.join(WORK_DIR, appId, '.vibe');
+
+  return Promise.all(
+    files.map(async (file) => {
+      const extension = path.extname(file).slice(1);
+      const mediaType = (Object.keys(EXTENSIONS) as ImageMediaType[]).find((type) => EXTENSIONS[type] === extension);
+      if (!mediaType) throw new Error(`Unsupported mockup file: ${file}`);
+
+      const data = await fs.readFile(path.join(vibeDir, file));
+      return { name: path.basename(file), mediaType, data: data.toString('base64') };
+    })
+  );
+}
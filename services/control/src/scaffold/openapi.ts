@@ -0,0 +1,298 @@
+import { AppSpec, AttributeSpec, DataModelSpec } from '@aws-vibe/shared';
+import { EndpointBinding, resolveEndpointBindings, tableOwnerAttribute } from './bindings';
+
+/**
+ * The subset of OpenAPI 3 the generated documents use
+ */
+export interface SchemaObject {
+  $ref?: string;
+  type?: 'object' | 'array' | 'string' | 'number' | 'boolean';
+  format?: string;
+  description?: string;
+  properties?: Record<string, SchemaObject>;
+  required?: string[];
+  items?: SchemaObject;
+  additionalProperties?: boolean | SchemaObject;
+}
+
+export interface ParameterObject {
+  name: string;
+  in: 'path';
+  required: true;
+  schema: SchemaObject;
+}
+
+export interface OperationObject {
+  operationId: string;
+  summary?: string;
+  tags?: string[];
+  parameters?: ParameterObject[];
+  requestBody?: { required: boolean; content: { 'application/json': { schema: SchemaObject } } };
+  responses: Record<string, { description: string; content?: { 'application/json': { schema: SchemaObject } } }>;
+  security?: Array<Record<string, string[]>>;
+}
+
+export interface OpenApiDocument {
+  openapi: '3.0.3';
+  info: { title: string; version: string; description?: string };
+  paths: Record<string, Record<string, OperationObject>>;
+  components: {
+    schemas: Record<string, SchemaObject>;
+    securitySchemes?: Record<string, { type: 'apiKey'; in: 'header'; name: string; description: string }>;
+  };
+}
+
+const SERVER_FIELDS = ['createdAt', 'updatedAt'];
+const ERROR_REF = { $ref: '#/components/schemas/ErrorResponse' };
+
+// API Gateway's Cognito authorizer reads the raw ID token, without a Bearer prefix
+const COGNITO_SCHEME = {
+  type: 'apiKey' as const,
+  in: 'header' as const,
+  name: 'Authorization',
+  description: 'Cognito user pool ID token',
+};
+
+/**
+ * Describe the app's API as an OpenAPI 3 document. Each table becomes an item
+ * schema plus input schemas for create and update; each endpoint becomes an
+ * operation whose operationId is its handler name, with the request and
+ * response shapes of the handler template for its bound operation.
+ */
+export function buildOpenApiDocument(spec: AppSpec): OpenApiDocument {
+  const schemas: Record<string, SchemaObject> = {
+    ErrorResponse: {
+      type: 'object',
+      properties: { error: { type: 'string' }, message: { type: 'string' } },
+      required: ['error'],
+    },
+  };
+
+  for (const model of spec.dataModel) {
+    const name = schemaName(model.table);
+    schemas[name] = itemSchema(model);
+    schemas[`${name}Input`] = inputSchema(model, spec.auth ? tableOwnerAttribute(model) : undefined);
+    schemas[`${name}Update`] = updateSchema(model);
+  }
+
+  const paths: OpenApiDocument['paths'] = {};
+  for (const binding of resolveEndpointBindings(spec)) {
+    const { endpoint } = binding;
+    paths[endpoint.path] = paths[endpoint.path] || {};
+    paths[endpoint.path][endpoint.method.toLowerCase()] = operation(spec, binding);
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: spec.name,
+      version: '1.0.0',
+      description: 'Generated from the app spec. Requests go to the ApiUrl output of the app stack.',
+    },
+    paths,
+    components: {
+      schemas,
+      ...(spec.auth ? { securitySchemes: { cognito: COGNITO_SCHEME } } : {}),
+    },
+  };
+}
+
+/**
+ * Component schema name for a table: singular PascalCase (todos -> Todo)
+ */
+export function schemaName(table: string): string {
+  const singular = table
+    .replace(/ies$/i, 'y')
+    .replace(/(ss|x|ch|sh)es$/i, '$1')
+    .replace(/([^su])s$/i, '$1');
+  const words = singular.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const name = words.map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+  return /^[0-9]/.test(name) ? `T${name}` : name || 'Item';
+}
+
+function operation(spec: AppSpec, binding: EndpointBinding): OperationObject {
+  const { endpoint, table, operation: kind } = binding;
+  const ref = table ? { $ref: `#/components/schemas/${schemaName(table.table)}` } : undefined;
+
+  const op: OperationObject = {
+    operationId: endpoint.handler,
+    ...(endpoint.description ? { summary: endpoint.description } : {}),
+    ...(table ? { tags: [table.table] } : {}),
+    responses: {},
+  };
+
+  if (binding.pathParams.length > 0) {
+    op.parameters = binding.pathParams.map((param) => ({
+      name: param,
+      in: 'path',
+      required: true,
+      schema: { type: keyParamType(binding, param) },
+    }));
+  }
+
+  const body = requestBody(binding);
+  if (body) {
+    op.requestBody = { required: kind !== 'custom', content: { 'application/json': { schema: body } } };
+  }
+
+  const json = (schema: SchemaObject) => ({ 'application/json': { schema } });
+  const error = (description: string) => ({ description, content: json(ERROR_REF) });
+
+  switch (ref ? kind : 'custom') {
+    case 'list':
+    case 'query':
+      op.responses['200'] = {
+        description: `${table!.table} items`,
+        content: json({ type: 'object', properties: { items: { type: 'array', items: ref } }, required: ['items'] }),
+      };
+      break;
+    case 'get':
+      op.responses['200'] = { description: `The ${table!.table} item`, content: json(ref!) };
+      op.responses['404'] = error('Item not found');
+      break;
+    case 'create':
+      op.responses['201'] = { description: `The created ${table!.table} item`, content: json(ref!) };
+      op.responses['400'] = error('Missing required fields');
+      op.responses['409'] = error('Item already exists');
+      break;
+    case 'update':
+      op.responses['200'] = { description: `The updated ${table!.table} item`, content: json(ref!) };
+      op.responses['400'] = error('Missing key or no fields to update');
+      op.responses['404'] = error('Item not found');
+      break;
+    case 'delete':
+      op.responses['200'] = {
+        description: 'Item deleted',
+        content: json({ type: 'object', properties: { deleted: { type: 'boolean' } }, required: ['deleted'] }),
+      };
+      op.responses['404'] = error('Item not found');
+      break;
+    default:
+      op.responses['200'] = { description: 'Handler-defined JSON response', content: json({ type: 'object', additionalProperties: true }) };
+  }
+  op.responses['500'] = error('Unexpected failure');
+
+  if (spec.auth && endpoint.requiresAuth) {
+    op.security = [{ cognito: [] }];
+    op.responses['401'] = { description: 'Missing or invalid Cognito token' };
+  }
+
+  return op;
+}
+
+function requestBody(binding: EndpointBinding): SchemaObject | undefined {
+  const { table, operation: kind, endpoint } = binding;
+  if (table && kind === 'create') return { $ref: `#/components/schemas/${schemaName(table.table)}Input` };
+  if (table && kind === 'update') {
+    // Key attributes missing from the path are read from the body
+    const keys = bodyKeys(binding);
+    const update = { $ref: `#/components/schemas/${schemaName(table.table)}Update` };
+    if (keys.length === 0) return update;
+    return {
+      type: 'object',
+      properties: {
+        ...Object.fromEntries(keys.map((key) => [key, attributeSchema(table, key)])),
+        ...updateSchema(table).properties,
+      },
+      required: keys,
+    };
+  }
+  if (table && kind === 'delete') {
+    const keys = bodyKeys(binding);
+    if (keys.length === 0) return undefined;
+    return { type: 'object', properties: Object.fromEntries(keys.map((key) => [key, attributeSchema(table, key)])), required: keys };
+  }
+  if (kind === 'custom' && endpoint.method !== 'GET' && endpoint.method !== 'DELETE') {
+    return { type: 'object', additionalProperties: true };
+  }
+  return undefined;
+}
+
+function bodyKeys(binding: EndpointBinding): string[] {
+  const table = binding.table!;
+  return [
+    ...(binding.keyParams.partitionKey ? [] : [table.partitionKey]),
+    ...(table.sortKey && !binding.keyParams.sortKey ? [table.sortKey] : []),
+  ].filter((key) => key !== binding.ownerAttribute);
+}
+
+function keyParamType(binding: EndpointBinding, param: string): 'string' | 'number' {
+  const table = binding.table;
+  if (!table) return 'string';
+  const key = param === binding.keyParams.partitionKey ? table.partitionKey : param === binding.keyParams.sortKey ? table.sortKey : undefined;
+  return key && attributeType(table, key) === 'number' ? 'number' : 'string';
+}
+
+/**
+ * Stored item: keys and required attributes are always present
+ */
+function itemSchema(model: DataModelSpec): SchemaObject {
+  const keys = keyNames(model);
+  const attributes = withKeys(model);
+  return {
+    type: 'object',
+    properties: Object.fromEntries(attributes.map((attribute) => [attribute.name, typeSchema(attribute.type)])),
+    required: attributes.filter((attribute) => keys.includes(attribute.name) || attribute.required).map((attribute) => attribute.name),
+  };
+}
+
+/**
+ * Create payload: timestamps are set by the handler, the partition key is
+ * generated when left out and the owner comes from the caller's token, so none
+ * of them is required
+ */
+function inputSchema(model: DataModelSpec, owner?: string): SchemaObject {
+  const attributes = withKeys(model).filter((attribute) => !SERVER_FIELDS.includes(attribute.name));
+  return {
+    type: 'object',
+    properties: Object.fromEntries(attributes.map((attribute) => [attribute.name, typeSchema(attribute.type)])),
+    required: attributes
+      .filter((attribute) => attribute.required && attribute.name !== model.partitionKey && attribute.name !== owner)
+      .map((attribute) => attribute.name),
+  };
+}
+
+/**
+ * Update payload: any non-key attribute
+ */
+function updateSchema(model: DataModelSpec): SchemaObject {
+  const keys = keyNames(model);
+  const attributes = model.attributes.filter((attribute) => !keys.includes(attribute.name) && !SERVER_FIELDS.includes(attribute.name));
+  return {
+    type: 'object',
+    properties: Object.fromEntries(attributes.map((attribute) => [attribute.name, typeSchema(attribute.type)])),
+  };
+}
+
+/**
+ * Model attributes plus key attributes the model left out of its attribute list
+ */
+function withKeys(model: DataModelSpec): AttributeSpec[] {
+  const missing = keyNames(model)
+    .filter((key) => !model.attributes.some((attribute) => attribute.name === key))
+    .map((key) => ({ name: key, type: 'string' as const, required: true }));
+  return [...missing, ...model.attributes];
+}
+
+function keyNames(model: DataModelSpec): string[] {
+  return [model.partitionKey, ...(model.sortKey ? [model.sortKey] : [])];
+}
+
+function attributeType(model: DataModelSpec, name: string): AttributeSpec['type'] {
+  return model.attributes.find((attribute) => attribute.name === name)?.type || 'string';
+}
+
+function attributeSchema(model: DataModelSpec, name: string): SchemaObject {
+  return typeSchema(attributeType(model, name));
+}
+
+function typeSchema(type: AttributeSpec['type']): SchemaObject {
+  switch (type) {
+    case 'list':
+      return { type: 'array', items: {} };
+    case 'map':
+      return { type: 'object', additionalProperties: true };
+    default:
+      return { type };
+  }
+}
@@ -1,7 +1,14 @@
 import * as path from 'path';
+import * as fs from 'fs/promises';
 import * as ejs from 'ejs';
-import { AppSpec, AppManifest, Blueprint, Environment } from '@aws-vibe/shared';
-import { ensureDir, writeFile, writeJson, initGitRepo } from '../util/fsx';
+import { AppSpec, AppManifest, AppStatus, GeneratedCode } from '@aws-vibe/shared';
+import { ensureDir, exists, writeFile, writeFileIfChanged, writeJson, readJson, initGitRepo, commitRepo, headCommit, resetRepo } from '../util/fsx';
+import { resolveEndpointBindings } from './bindings';
+import { getBlueprint, templateApplies, templatePath } from './blueprintRegistry';
+import { seedFilePath, writeSeedFiles } from './seedData';
+import { writeMigrations } from './migrations';
+import { buildOpenApiDocument } from './openapi';
+import { API_CLIENT_PATH, OPENAPI_PATH, renderApiClient } from './apiClient';
 
 const WORK_DIR = '/work';
 
@@ -13,7 +20,8 @@ export async function renderRepo(
   spec: AppSpec,
   accountId: string,
   region: string,
-  sanitizedAppName?: string
+  sanitizedAppName?: string,
+  prompt?: string
 ): Promise<string> {
   const repoPath = path.join(WORK_DIR, appId);
   console.log(`[Scaffold] Rendering repo at: ${repoPath}`);
@@ -31,14 +39,10 @@ export async function renderRepo(
   await createDirectoryStructure(repoPath, spec.blueprint);
 
   // Render based on blueprint
-  if (spec.blueprint === Blueprint.SERVERLESS) {
-    await renderServerlessBlueprint(repoPath, appId, spec, accountId, region, safeName);
-  } else if (spec.blueprint === Blueprint.CONTAINERS) {
-    await renderContainersBlueprint(repoPath, appId, spec, accountId, region, safeName);
-  }
+  await renderBlueprint(repoPath, appId, spec, accountId, region, safeName);
 
   // Create manifest
-  await createManifest(repoPath, appId, spec, accountId, region);
+  await createManifest(repoPath, appId, spec, accountId, region, safeName, 'built', prompt);
 
   // Initialize git
   await initGitRepo(repoPath, spec.name);
@@ -48,42 +52,104 @@ export async function renderRepo(
 }
 
 /**
- * Create directory structure
+ * Store a planned spec as a draft app. Nothing is rendered until the draft is built.
  */
-async function createDirectoryStructure(
-  repoPath: string,
-  blueprint: Blueprint
+export async function createDraft(
+  appId: string,
+  spec: AppSpec,
+  accountId: string,
+  region: string,
+  sanitizedAppName: string,
+  prompt: string
 ): Promise<void> {
-  const dirs = [
-    '.vibe',
-    'infra',
-    'infra/bin',
-    'infra/lib',
-    'web',
-    'web/src',
-    'web/src/pages',
-    'web/src/components',
-    'web/src/lib',
-    'web/public',
-    'api',
-    'api/src',
-    'api/src/handlers',
-    'tests',
-  ];
-
-  if (blueprint === Blueprint.CONTAINERS) {
-    dirs.push('api/docker');
+  const repoPath = path.join(WORK_DIR, appId);
+  console.log(`[Scaffold] Saving draft at: ${repoPath}`);
+
+  await ensureDir(path.join(repoPath, '.vibe'));
+  await createManifest(repoPath, appId, spec, accountId, region, sanitizedAppName, 'draft', prompt);
+}
+
+export interface RepoUpdate {
+  repoPath: string;
+  commit: string;
+  changedFiles: string[];
+}
+
+/**
+ * Re-render an existing repository from a revised spec and commit the changes.
+ * Only files whose rendered content differs are rewritten.
+ */
+export async function updateRepo(
+  appId: string,
+  spec: AppSpec,
+  commitMessage: string
+): Promise<RepoUpdate> {
+  const repoPath = path.join(WORK_DIR, appId);
+  const manifestPath = path.join(repoPath, '.vibe', 'manifest.json');
+  console.log(`[Scaffold] Updating repo at: ${repoPath}`);
+
+  const manifest: AppManifest = await readJson(manifestPath);
+  const safeName = manifestStackName(manifest);
+
+  await removeStaleFiles(repoPath, manifest.spec, spec);
+  await createDirectoryStructure(repoPath, spec.blueprint);
+  await renderBlueprint(repoPath, appId, spec, manifest.accountId, manifest.region, safeName);
+
+  manifest.spec = spec;
+  manifest.updatedAt = new Date().toISOString();
+  await writeJson(manifestPath, manifest);
+
+  const { commit, changedFiles } = await commitRepo(repoPath, commitMessage);
+
+  console.log(`[Scaffold] Repo updated at ${commit}: ${changedFiles.length} files changed`);
+  return { repoPath, commit, changedFiles };
+}
+
+// App metadata written after the last commit, like deployment results in the manifest
+const METADATA_FILES = ['manifest.json', 'conversation.jsonl'];
+
+export interface RepoSnapshot {
+  commit: string;
+  /** Contents of the .vibe metadata files, by file name */
+  metadata: Record<string, string>;
+}
+
+/**
+ * Record an app's repo before an update that may have to be undone
+ */
+export async function snapshotRepo(appId: string): Promise<RepoSnapshot> {
+  const repoPath = path.join(WORK_DIR, appId);
+  const metadata: Record<string, string> = {};
+
+  for (const file of METADATA_FILES) {
+    const filePath = path.join(repoPath, '.vibe', file);
+    if (await exists(filePath)) metadata[file] = await fs.readFile(filePath, 'utf-8');
   }
 
-  for (const dir of dirs) {
-    await ensureDir(path.join(repoPath, dir));
+  return { commit: await headCommit(repoPath), metadata };
+}
+
+/**
+ * Undo every commit since the snapshot, including updateRepo's, and put the
+ * manifest and conversation back, so the app's spec is again the one its
+ * deployed stack was built from
+ */
+export async function restoreRepo(appId: string, snapshot: RepoSnapshot): Promise<void> {
+  const repoPath = path.join(WORK_DIR, appId);
+  await resetRepo(repoPath, snapshot.commit);
+
+  for (const [file, content] of Object.entries(snapshot.metadata)) {
+    await writeFile(path.join(repoPath, '.vibe', file), content);
   }
+  console.log(`[Scaffold] Restored repo at ${repoPath} to ${snapshot.commit.slice(0, 7)}`);
 }
 
 /**
- * Render serverless blueprint
+ * Render the templates listed in the spec's blueprint manifest, then the
+ * generated code, and the API description, seed data and migrations for
+ * blueprints with an API, DynamoDB tables and Postgres tables
  */
-async function renderServerlessBlueprint(
+async function renderBlueprint(
   repoPath: string,
   appId: string,
   spec: AppSpec,
@@ -91,7 +157,8 @@ async function renderServerlessBlueprint(
   region: string,
   sanitizedAppName: string
 ): Promise<void> {
-  const templateDir = path.join(__dirname, 'blueprints', 'serverless');
+  const blueprint = getBlueprint(spec.blueprint);
+  const bindings = resolveEndpointBindings(spec);
 
   const context = {
     appId,
@@ -101,262 +168,206 @@ async function renderServerlessBlueprint(
     region,
     spec,
     auth: spec.auth,
+    bindings,
   };
 
-  // Infrastructure
-  await renderTemplate(
-    path.join(templateDir, 'infra-package.json.ejs'),
-    path.join(repoPath, 'infra', 'package.json'),
-    context
-  );
-
-  await renderTemplate(
-    path.join(templateDir, 'infra-tsconfig.json.ejs'),
-    path.join(repoPath, 'infra', 'tsconfig.json'),
-    context
-  );
-
-  await renderTemplate(
-    path.join(templateDir, 'infra-cdk.json.ejs'),
-    path.join(repoPath, 'infra', 'cdk.json'),
-    context
-  );
-
-  await renderTemplate(
-    path.join(templateDir, 'infra-bin.ts.ejs'),
-    path.join(repoPath, 'infra', 'bin', 'infra.ts'),
-    context
-  );
-
-  await renderTemplate(
-    path.join(templateDir, 'infra-stack.ts.ejs'),
-    path.join(repoPath, 'infra', 'lib', 'app-stack.ts'),
-    context
-  );
-
-  // Web
-  await renderTemplate(
-    path.join(templateDir, 'web-package.json.ejs'),
-    path.join(repoPath, 'web', 'package.json'),
-    context
-  );
-
-  await renderTemplate(
-    path.join(templateDir, 'web-next.config.js.ejs'),
-    path.join(repoPath, 'web', 'next.config.js'),
-    context
-  );
-
-  await renderTemplate(
-    path.join(templateDir, 'web-tsconfig.json.ejs'),
-    path.join(repoPath, 'web', 'tsconfig.json'),
-    context
-  );
-
-  await renderTemplate(
-    path.join(templateDir, 'web-app.tsx.ejs'),
-    path.join(repoPath, 'web', 'src', 'pages', '_app.tsx'),
-    context
-  );
-
-  // Write generated code if available, otherwise use template
-  if (spec.generatedCode) {
-    console.log(`[Scaffold] Writing Bedrock-generated code to files`);
+  for (const entry of blueprint.templates) {
+    if (!templateApplies(entry, spec)) continue;
 
-    // Write generated pages
-    for (const [route, code] of Object.entries(spec.generatedCode.pages)) {
-      const fileName = route === '/' ? 'index.tsx' : `${route.replace(/^\//, '')}.tsx`;
-      await writeFile(path.join(repoPath, 'web', 'src', 'pages', fileName), code);
-      console.log(`[Scaffold] Wrote page: ${fileName}`);
+    if (entry.each !== 'endpoint') {
+      await renderTemplate(templatePath(blueprint, entry), path.join(repoPath, entry.output), context);
+      continue;
     }
 
-    // Write generated components
-    for (const [componentName, code] of Object.entries(spec.generatedCode.components)) {
-      await writeFile(
-        path.join(repoPath, 'web', 'src', 'components', `${componentName}.tsx`),
-        code
-      );
-      console.log(`[Scaffold] Wrote component: ${componentName}.tsx`);
+    // Generated handlers replace the template; tests are told which kind they check
+    for (const binding of bindings) {
+      const outputPath = path.join(repoPath, endpointOutput(entry.output, binding.endpoint.handler));
+      const generated = spec.generatedCode?.handlers?.[binding.endpoint.handler];
+
+      if (generated && entry.generated === 'handler') {
+        await writeFileIfChanged(outputPath, generated);
+      } else {
+        await renderTemplate(
+          templatePath(blueprint, entry),
+          outputPath,
+          { ...context, endpoint: binding.endpoint, binding, generated: Boolean(generated) }
+        );
+      }
     }
+  }
 
-    // Write generated lib files
-    for (const [libName, code] of Object.entries(spec.generatedCode.lib)) {
-      const fileName = libName.endsWith('.ts') ? libName : `${libName}.ts`;
-      await writeFile(path.join(repoPath, 'web', 'src', 'lib', fileName), code);
-      console.log(`[Scaffold] Wrote lib: ${fileName}`);
-    }
-  } else {
-    // Fallback to template-based rendering
-    await renderTemplate(
-      path.join(templateDir, 'web-index.tsx.ejs'),
-      path.join(repoPath, 'web', 'src', 'pages', 'index.tsx'),
-      context
-    );
+  if (spec.generatedCode) {
+    await writeGeneratedCode(repoPath, spec.generatedCode);
   }
 
-  // API handlers
-  for (const endpoint of spec.api) {
-    await renderTemplate(
-      path.join(templateDir, 'api-handler.ts.ejs'),
-      path.join(repoPath, 'api', 'src', 'handlers', `${endpoint.handler}.ts`),
-      { endpoint, spec }
-    );
+  if (blueprint.features.api) {
+    await writeApiDescription(repoPath, spec);
   }
 
-  await renderTemplate(
-    path.join(templateDir, 'api-package.json.ejs'),
-    path.join(repoPath, 'api', 'package.json'),
-    context
-  );
-
-  // Root files
-  await renderTemplate(
-    path.join(templateDir, 'gitignore.ejs'),
-    path.join(repoPath, '.gitignore'),
-    context
-  );
-
-  await renderTemplate(
-    path.join(templateDir, 'README.md.ejs'),
-    path.join(repoPath, 'README.md'),
-    context
-  );
+  // Seed records loaded into the dev tables after deploy
+  if (blueprint.features.seedData) {
+    await writeSeedFiles(repoPath, spec.dataModel);
+  }
+
+  // New migration for whatever the data model changed since the last render
+  if (blueprint.features.migrations) {
+    await writeMigrations(repoPath, spec.dataModel);
+  }
+}
+
+function endpointOutput(output: string, handler: string): string {
+  return output.split('{handler}').join(handler);
 }
 
 /**
- * Render containers blueprint
+ * Remove generated files that the revised spec no longer produces
  */
-async function renderContainersBlueprint(
+async function removeStaleFiles(
   repoPath: string,
-  appId: string,
-  spec: AppSpec,
-  accountId: string,
-  region: string,
-  sanitizedAppName: string
+  previous: AppSpec,
+  next: AppSpec
 ): Promise<void> {
-  const templateDir = path.join(__dirname, 'blueprints', 'containers');
+  const keep = new Set(generatedFilePaths(next));
 
-  const context = {
-    appId,
-    appName: sanitizedAppName,  // Use sanitized name for CloudFormation
-    displayName: spec.name,      // Keep original for display
-    accountId,
-    region,
-    spec,
-    auth: spec.auth,
-  };
+  for (const file of generatedFilePaths(previous)) {
+    if (!keep.has(file)) {
+      await fs.rm(path.join(repoPath, file), { force: true });
+      console.log(`[Scaffold] Removed stale file: ${file}`);
+    }
+  }
+}
+
+/**
+ * Repo-relative paths of files rendered per page, component, lib file and endpoint, their tests, table seed data
+ * and the auth pages and lib files
+ */
+function generatedFilePaths(spec: AppSpec): string[] {
+  const files: string[] = [];
 
-  // Infrastructure
-  await renderTemplate(
-    path.join(templateDir, 'infra-package.json.ejs'),
-    path.join(repoPath, 'infra', 'package.json'),
-    context
-  );
-
-  await renderTemplate(
-    path.join(templateDir, 'infra-cdk.json.ejs'),
-    path.join(repoPath, 'infra', 'cdk.json'),
-    context
-  );
-
-  await renderTemplate(
-    path.join(templateDir, 'infra-bin.ts.ejs'),
-    path.join(repoPath, 'infra', 'bin', 'infra.ts'),
-    context
-  );
-
-  await renderTemplate(
-    path.join(templateDir, 'infra-stack.ts.ejs'),
-    path.join(repoPath, 'infra', 'lib', 'app-stack.ts'),
-    context
-  );
-
-  // Web (same as serverless)
-  const serverlessTemplateDir = path.join(__dirname, 'blueprints', 'serverless');
-  await renderTemplate(
-    path.join(serverlessTemplateDir, 'web-package.json.ejs'),
-    path.join(repoPath, 'web', 'package.json'),
-    context
-  );
-
-  await renderTemplate(
-    path.join(serverlessTemplateDir, 'web-next.config.js.ejs'),
-    path.join(repoPath, 'web', 'next.config.js'),
-    context
-  );
-
-  await renderTemplate(
-    path.join(serverlessTemplateDir, 'web-tsconfig.json.ejs'),
-    path.join(repoPath, 'web', 'tsconfig.json'),
-    context
-  );
-
-  await renderTemplate(
-    path.join(serverlessTemplateDir, 'web-app.tsx.ejs'),
-    path.join(repoPath, 'web', 'src', 'pages', '_app.tsx'),
-    context
-  );
-
-  // Write generated code if available, otherwise use template
   if (spec.generatedCode) {
-    console.log(`[Scaffold] Writing Bedrock-generated code to files`);
+    for (const route of Object.keys(spec.generatedCode.pages)) {
+      files.push(path.join('web', 'src', 'pages', pageFileName(route)));
+    }
+    for (const componentName of Object.keys(spec.generatedCode.components)) {
+      files.push(path.join('web', 'src', 'components', `${componentName}.tsx`));
+    }
+    for (const libName of Object.keys(spec.generatedCode.lib)) {
+      files.push(path.join('web', 'src', 'lib', libFileName(libName)));
+    }
+    for (const componentName of Object.keys(spec.generatedCode.tests || {})) {
+      files.push(path.join('web', 'test', 'components', `${componentName}.test.tsx`));
+    }
+  }
+
+  const blueprint = getBlueprint(spec.blueprint);
+  for (const entry of blueprint.templates.filter((template) => template.each === 'endpoint')) {
+    for (const endpoint of spec.api) {
+      files.push(path.normalize(endpointOutput(entry.output, endpoint.handler)));
+    }
+  }
+  if (blueprint.features.seedData) {
+    for (const model of spec.dataModel) {
+      files.push(seedFilePath(model.table));
+    }
+  }
+  if (spec.auth) {
+    for (const entry of blueprint.templates.filter((template) => template.when === 'auth')) {
+      files.push(path.normalize(entry.output));
+    }
+  }
+
+  return files;
+}
+
+function pageFileName(route: string): string {
+  return route === '/' ? 'index.tsx' : `${route.replace(/^\//, '')}.tsx`;
+}
+
+function libFileName(libName: string): string {
+  return libName.endsWith('.ts') ? libName : `${libName}.ts`;
+}
+
+/**
+ * Create the .vibe directory and the directories the blueprint lists
+ */
+async function createDirectoryStructure(
+  repoPath: string,
+  blueprint: string
+): Promise<void> {
+  const dirs = ['.vibe', ...getBlueprint(blueprint).directories];
+
+  for (const dir of dirs) {
+    await ensureDir(path.join(repoPath, dir));
+  }
+}
+
+/**
+ * Write Bedrock-generated pages, components and lib files
+ */
+async function writeGeneratedCode(
+  repoPath: string,
+  generatedCode: GeneratedCode
+): Promise<void> {
+  console.log(`[Scaffold] Writing Bedrock-generated code to files`);
 
-    // Write generated pages
-    for (const [route, code] of Object.entries(spec.generatedCode.pages)) {
-      const fileName = route === '/' ? 'index.tsx' : `${route.replace(/^\//, '')}.tsx`;
-      await writeFile(path.join(repoPath, 'web', 'src', 'pages', fileName), code);
+  // Write generated pages
+  for (const [route, code] of Object.entries(generatedCode.pages)) {
+    const fileName = pageFileName(route);
+    if (await writeFileIfChanged(path.join(repoPath, 'web', 'src', 'pages', fileName), code)) {
       console.log(`[Scaffold] Wrote page: ${fileName}`);
     }
+  }
 
-    // Write generated components
-    for (const [componentName, code] of Object.entries(spec.generatedCode.components)) {
-      await writeFile(
-        path.join(repoPath, 'web', 'src', 'components', `${componentName}.tsx`),
-        code
-      );
+  // Write generated components
+  for (const [componentName, code] of Object.entries(generatedCode.components)) {
+    if (await writeFileIfChanged(path.join(repoPath, 'web', 'src', 'components', `${componentName}.tsx`), code)) {
       console.log(`[Scaffold] Wrote component: ${componentName}.tsx`);
     }
+  }
 
-    // Write generated lib files
-    for (const [libName, code] of Object.entries(spec.generatedCode.lib)) {
-      const fileName = libName.endsWith('.ts') ? libName : `${libName}.ts`;
-      await writeFile(path.join(repoPath, 'web', 'src', 'lib', fileName), code);
+  // Write generated lib files
+  for (const [libName, code] of Object.entries(generatedCode.lib)) {
+    const fileName = libFileName(libName);
+    if (await writeFileIfChanged(path.join(repoPath, 'web', 'src', 'lib', fileName), code)) {
       console.log(`[Scaffold] Wrote lib: ${fileName}`);
     }
-  } else {
-    // Fallback to template-based rendering
-    await renderTemplate(
-      path.join(serverlessTemplateDir, 'web-index.tsx.ejs'),
-      path.join(repoPath, 'web', 'src', 'pages', 'index.tsx'),
-      context
-    );
   }
 
-  // API with Dockerfile
-  await renderTemplate(
-    path.join(templateDir, 'api-package.json.ejs'),
-    path.join(repoPath, 'api', 'package.json'),
-    context
-  );
-
-  await renderTemplate(
-    path.join(templateDir, 'api-server.ts.ejs'),
-    path.join(repoPath, 'api', 'src', 'server.ts'),
-    context
-  );
-
-  await renderTemplate(
-    path.join(templateDir, 'api-Dockerfile.ejs'),
-    path.join(repoPath, 'api', 'Dockerfile'),
-    context
-  );
-
-  // Root files
-  await renderTemplate(
-    path.join(templateDir, 'README.md.ejs'),
-    path.join(repoPath, 'README.md'),
-    context
-  );
+  // Write generated component tests
+  for (const [componentName, code] of Object.entries(generatedCode.tests || {})) {
+    if (await writeFileIfChanged(path.join(repoPath, 'web', 'test', 'components', `${componentName}.test.tsx`), code)) {
+      console.log(`[Scaffold] Wrote test: ${componentName}.test.tsx`);
+    }
+  }
+}
+
+/**
+ * Write the OpenAPI document for the spec's API and the typed web client
+ * generated from it. Apps generated before the client existed keep the
+ * lib/api.ts the model wrote, since their components call its functions.
+ */
+async function writeApiDescription(repoPath: string, spec: AppSpec): Promise<void> {
+  const document = buildOpenApiDocument(spec);
+  await writeFileIfChanged(path.join(repoPath, OPENAPI_PATH), `${JSON.stringify(document, null, 2)}\n`);
+
+  if (!spec.generatedCode?.lib.api) {
+    await writeFileIfChanged(path.join(repoPath, API_CLIENT_PATH), renderApiClient(document));
+  }
+}
+
+/**
+ * Name the app's stacks are rendered and deployed with. Manifests written
+ * before it was stored fall back to the sanitized app name.
+ */
+export function manifestStackName(manifest: AppManifest): string {
+  return manifest.stackName || sanitizeName(manifest.appName);
+}
+
+function sanitizeName(name: string): string {
+  return name
+    .replace(/[^a-zA-Z0-9-]/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
 }
 
 /**
@@ -367,21 +378,33 @@ async function createManifest(
   appId: string,
   spec: AppSpec,
   accountId: string,
-  region: string
+  region: string,
+  stackName: string,
+  status: AppStatus = 'built',
+  prompt?: string
 ): Promise<void> {
+  const manifestPath = path.join(repoPath, '.vibe', 'manifest.json');
+  // Building a draft re-creates its manifest; keep the prompt and mockups it was planned from
+  const previous: AppManifest | undefined = await exists(manifestPath) ? await readJson(manifestPath) : undefined;
+
   const manifest: AppManifest = {
     appId,
     appName: spec.name,
+    // Stack names are derived from this, so keep the name the stacks were rendered with
+    stackName,
     blueprint: spec.blueprint,
+    status,
+    prompt: prompt ?? previous?.prompt,
+    mockups: previous?.mockups,
     spec,
     accountId,
     region,
-    createdAt: new Date().toISOString(),
+    createdAt: previous?.createdAt ?? new Date().toISOString(),
     updatedAt: new Date().toISOString(),
     deployments: {},
   };
 
-  await writeJson(path.join(repoPath, '.vibe', 'manifest.json'), manifest);
+  await writeJson(manifestPath, manifest);
 }
 
 /**
@@ -396,7 +419,7 @@ async function renderTemplate(
     const rendered = await ejs.renderFile(templatePath, context, {
       async: true,
     });
-    await writeFile(outputPath, rendered);
+    await writeFileIfChanged(outputPath, rendered);
   } catch (error: any) {
     console.error(`[Scaffold] Failed to render template ${templatePath}: ${error.message}`);
     throw error;
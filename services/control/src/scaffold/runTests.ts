@@ -0,0 +1,110 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { TestSummary } from '@aws-vibe/shared';
+import { needsNpmInstall } from '../deploy';
+import { execCommand } from '../util/exec';
+import { exists, readJson } from '../util/fsx';
+import { getBlueprint } from './blueprintRegistry';
+
+const WORK_DIR = '/work';
+
+export type TestGateMode = 'block' | 'warn' | 'off';
+
+interface JestReport {
+  numPassedTests: number;
+  numFailedTests: number;
+  testResults: Array<{
+    name: string;
+    status: string;
+    message?: string;
+    assertionResults: Array<{ fullName: string; status: string }>;
+  }>;
+}
+
+/**
+ * How the deploy gate treats failing generated tests, from TEST_GATE:
+ * block stops the dev deploy, warn reports and deploys anyway, off skips the run
+ */
+export function testGateMode(): TestGateMode {
+  const mode = process.env.TEST_GATE || 'warn';
+  if (mode !== 'block' && mode !== 'warn' && mode !== 'off') {
+    throw new Error(`Unknown TEST_GATE: ${mode} (expected block, warn or off)`);
+  }
+  return mode;
+}
+
+/**
+ * Run the generated app's Jest suites in the projects its blueprint lists,
+ * such as the API handler and web component tests of serverless apps
+ */
+export async function runGeneratedTests(
+  appId: string,
+  blueprint: string,
+  onStatus?: (step: string, message: string) => void
+): Promise<TestSummary> {
+  const repoPath = path.join(WORK_DIR, appId);
+  const projects = getBlueprint(blueprint).testProjects;
+
+  const summary: TestSummary = { passed: 0, failed: 0, failures: [] };
+  for (const project of projects) {
+    if (onStatus) onStatus('test-run', `Running ${project} tests`);
+    const result = await runJest(appId, path.join(repoPath, project), project);
+    summary.passed += result.passed;
+    summary.failed += result.failed;
+    summary.failures.push(...result.failures);
+  }
+
+  console.log(`[Test] ${appId}: ${summary.passed} passed, ${summary.failed} failed`);
+  return summary;
+}
+
+async function runJest(appId: string, projectPath: string, project: string): Promise<TestSummary> {
+  if (await needsNpmInstall(projectPath)) {
+    const installResult = await execCommand('npm', ['install'], {
+      cwd: projectPath,
+      timeout: 300000 // 5 minutes
+    });
+    if (installResult.exitCode !== 0) {
+      throw new Error(`${project} npm install failed: ${installResult.stderr}`);
+    }
+  }
+
+  // Jest writes the report to a file so test output on stdout can't corrupt it
+  const reportPath = path.join(os.tmpdir(), `${appId}-${project}-jest.json`);
+  await fs.rm(reportPath, { force: true });
+  const result = await execCommand('npx', ['jest', '--ci', '--json', `--outputFile=${reportPath}`, '--passWithNoTests'], {
+    cwd: projectPath,
+    env: { CI: 'true' },
+    timeout: 300000
+  });
+
+  if (!(await exists(reportPath))) {
+    return { passed: 0, failed: 1, failures: [`${project}: jest did not run: ${firstLine(result.stderr)}`] };
+  }
+
+  const report = await readJson<JestReport>(reportPath);
+  await fs.rm(reportPath, { force: true });
+
+  const failures: string[] = [];
+  for (const suite of report.testResults) {
+    const file = path.relative(projectPath, suite.name);
+    const failed = suite.assertionResults.filter((assertion) => assertion.status === 'failed');
+
+    if (suite.status === 'failed' && failed.length === 0) {
+      // The suite itself failed to load, e.g. a compile error in the test file
+      failures.push(`${project}/${file}: failed to run: ${firstLine(suite.message || '')}`);
+    }
+    failures.push(...failed.map((assertion) => `${project}/${file}: ${assertion.fullName}`));
+  }
+
+  return {
+    passed: report.numPassedTests,
+    failed: Math.max(report.numFailedTests, failures.length),
+    failures,
+  };
+}
+
+function firstLine(text: string): string {
+  return text.split('\n').map((line) => line.trim()).find((line) => line) || 'no output';
+}
@@ -0,0 +1,198 @@
+import * as path from 'path';
+import { AttributeSpec, DataModelSpec } from '@aws-vibe/shared';
+import { exists, readFile, writeFile } from '../util/fsx';
+
+export type SeedRecord = Record<string, unknown>;
+
+const NAMES = ['Ada Lovelace', 'Grace Hopper', 'Alan Turing', 'Katherine Johnson', 'Linus Torvalds', 'Margaret Hamilton', 'Dennis Ritchie', 'Barbara Liskov'];
+const STATUSES = ['active', 'pending', 'completed'];
+const WORDS = ['Quarterly', 'Planning', 'Review', 'Launch', 'Weekly', 'Design', 'Budget', 'Roadmap', 'Kickoff', 'Retro'];
+
+/**
+ * Repo-relative path of a table's seed records
+ */
+export function seedFilePath(table: string): string {
+  return path.join('seed', `${table}.json`);
+}
+
+/**
+ * Build SEED_RECORDS sample items for a table. Values follow each attribute's
+ * type and name; keys are always set and unique, required attributes always
+ * present and every third item leaves the optional ones out. The output only
+ * depends on the model, so re-rendering an unchanged table gives the same file.
+ */
+export function generateSeedRecords(model: DataModelSpec): SeedRecord[] {
+  const count = parseInt(process.env.SEED_RECORDS || '5', 10);
+  const keyNames = new Set([model.partitionKey, ...(model.sortKey ? [model.sortKey] : [])]);
+  const indexKeys = new Set((model.secondaryIndexes || []).flatMap((index) => [index.partitionKey, ...(index.sortKey ? [index.sortKey] : [])]));
+
+  const records: SeedRecord[] = [];
+  for (let i = 0; i < count; i++) {
+    const record: SeedRecord = {};
+
+    // With a sort key, items share partitions in pairs so queries by partition return several
+    record[model.partitionKey] = sampleValue(model, model.partitionKey, model.sortKey ? Math.floor(i / 2) : i);
+    if (model.sortKey) record[model.sortKey] = sampleValue(model, model.sortKey, i);
+
+    for (const attribute of model.attributes) {
+      if (keyNames.has(attribute.name)) continue;
+      const optional = !attribute.required && !indexKeys.has(attribute.name);
+      if (optional && i % 3 === 2) continue;
+      record[attribute.name] = sampleValue(model, attribute.name, i);
+    }
+
+    records.push(record);
+  }
+
+  return records;
+}
+
+/**
+ * Problems that would stop seed records from loading into the table: missing
+ * keys or required attributes, duplicate keys and values of the wrong type
+ */
+export function checkSeedRecords(model: DataModelSpec, records: unknown): string[] {
+  if (!Array.isArray(records)) return ['seed file must contain a JSON array of items'];
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  const types = new Map(model.attributes.map((attribute) => [attribute.name, attribute.type]));
+
+  records.forEach((record, index) => {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      errors.push(`item ${index}: must be an object`);
+      return;
+    }
+    const item = record as SeedRecord;
+
+    for (const key of [model.partitionKey, ...(model.sortKey ? [model.sortKey] : [])]) {
+      if (item[key] === undefined || item[key] === null || item[key] === '') errors.push(`item ${index}: missing key ${key}`);
+    }
+    for (const attribute of model.attributes) {
+      if (attribute.required && item[attribute.name] === undefined) {
+        errors.push(`item ${index}: missing required attribute ${attribute.name}`);
+      }
+    }
+    for (const [name, value] of Object.entries(item)) {
+      const type = types.get(name);
+      if (type && value !== undefined && value !== null && !matchesType(type, value)) {
+        errors.push(`item ${index}: ${name} should be a ${type}`);
+      }
+    }
+
+    const key = JSON.stringify([item[model.partitionKey], model.sortKey ? item[model.sortKey] : null]);
+    if (seen.has(key)) errors.push(`item ${index}: duplicate key ${key}`);
+    seen.add(key);
+  });
+
+  return errors;
+}
+
+/**
+ * Write seed/<table>.json for every table. Existing files are kept as long as
+ * they still fit the table, so hand-edited seed data survives re-renders.
+ */
+export async function writeSeedFiles(repoPath: string, dataModel: DataModelSpec[]): Promise<void> {
+  for (const model of dataModel) {
+    const seedPath = path.join(repoPath, seedFilePath(model.table));
+
+    if (await exists(seedPath)) {
+      let records: unknown;
+      try {
+        records = JSON.parse(await readFile(seedPath));
+      } catch {
+        records = undefined;
+      }
+      if (checkSeedRecords(model, records).length === 0) continue;
+      console.log(`[Scaffold] Seed data for ${model.table} no longer fits the table, regenerating`);
+    }
+
+    await writeFile(seedPath, `${JSON.stringify(generateSeedRecords(model), null, 2)}\n`);
+    console.log(`[Scaffold] Wrote seed data: ${seedFilePath(model.table)}`);
+  }
+}
+
+/**
+ * Read and check a table's seed records from the repo
+ */
+export async function readSeedRecords(repoPath: string, model: DataModelSpec): Promise<SeedRecord[]> {
+  const seedPath = path.join(repoPath, seedFilePath(model.table));
+  if (!(await exists(seedPath))) return [];
+
+  const records = JSON.parse(await readFile(seedPath));
+  const errors = checkSeedRecords(model, records);
+  if (errors.length > 0) {
+    throw new Error(`Invalid seed data in ${seedFilePath(model.table)}: ${errors.slice(0, 5).join('; ')}`);
+  }
+  return records as SeedRecord[];
+}
+
+function sampleValue(model: DataModelSpec, name: string, i: number): unknown {
+  const type = model.attributes.find((attribute) => attribute.name === name)?.type || 'string';
+  const n = i + 1;
+
+  switch (type) {
+    case 'number':
+      return sampleNumber(name, n);
+    case 'boolean':
+      return i % 2 === 0;
+    case 'list':
+      return [`${singular(model.table)}-tag-${n}`];
+    case 'map':
+      return { note: `Sample ${singular(model.table)} ${n}` };
+    default:
+      return sampleString(model.table, name, n);
+  }
+}
+
+function sampleNumber(attribute: string, n: number): number {
+  const name = attribute.toLowerCase();
+  if (/price|amount|cost|total|balance/.test(name)) return Math.round(n * 12.5 * 100) / 100;
+  if (/rating|score|stars/.test(name)) return ((n - 1) % 5) + 1;
+  if (/year/.test(name)) return 2020 + n;
+  if (isTimestamp(attribute)) return Date.UTC(2024, 0, n);
+  return n * 10;
+}
+
+function sampleString(table: string, attribute: string, n: number): string {
+  const name = attribute.toLowerCase();
+  const padded = String(n).padStart(3, '0');
+
+  if (name === 'id') return `${singular(table)}-${padded}`;
+  if (/(Id|_id|ID)$/.test(attribute)) return `${attribute.replace(/_?(Id|id|ID)$/, '').toLowerCase()}-${padded}`;
+  if (/email/.test(name)) return `user${n}@example.com`;
+  if (isTimestamp(attribute)) return new Date(Date.UTC(2024, 0, n, 9)).toISOString();
+  if (/url|link|website/.test(name)) return `https://example.com/${singular(table)}/${n}`;
+  if (/image|avatar|photo/.test(name)) return `https://picsum.photos/seed/${singular(table)}${n}/400/300`;
+  if (/phone/.test(name)) return `+1-555-01${padded.slice(1)}`;
+  if (/status|state/.test(name)) return STATUSES[(n - 1) % STATUSES.length];
+  if (/name|author|owner|user/.test(name)) return NAMES[(n - 1) % NAMES.length];
+  if (/description|notes|content|body|text|summary|comment/.test(name)) {
+    return `Sample ${singular(table)} ${n} created to demo the app.`;
+  }
+  if (/title|subject|label/.test(name)) return `${WORDS[(n - 1) % WORDS.length]} ${WORDS[n % WORDS.length]} ${n}`;
+  return `${attribute} ${n}`;
+}
+
+function isTimestamp(attribute: string): boolean {
+  return /(At|_at|[dD]ate|[tT]ime|[tT]imestamp)$/.test(attribute) || attribute === 'date';
+}
+
+function matchesType(type: AttributeSpec['type'], value: unknown): boolean {
+  switch (type) {
+    case 'number':
+      return typeof value === 'number';
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'list':
+      return Array.isArray(value);
+    case 'map':
+      return typeof value === 'object' && !Array.isArray(value);
+    default:
+      return typeof value === 'string';
+  }
+}
+
+function singular(table: string): string {
+  return table.toLowerCase().replace(/ies$/, 'y').replace(/s$/, '');
+}
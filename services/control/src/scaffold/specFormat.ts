@@ -0,0 +1,39 @@
+import * as YAML from 'yaml';
+import { AppSpec, SpecFormat } from '@aws-vibe/shared';
+import { OpenApiDocument } from './openapi';
+
+/**
+ * Parse a hand-written spec document. YAML is a superset of JSON, so one
+ * parser handles both; already-parsed objects pass through unchanged.
+ */
+export function parseSpecDocument(document: string | object): unknown {
+  if (typeof document !== 'string') {
+    return document;
+  }
+
+  try {
+    return YAML.parse(document);
+  } catch (error) {
+    throw new Error(`Spec is not valid JSON or YAML: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Serialize a spec for export in the format import accepts
+ */
+export function serializeSpec(spec: AppSpec, format: SpecFormat): string {
+  if (format === 'yaml') {
+    return YAML.stringify(spec, { lineWidth: 0 });
+  }
+  return JSON.stringify(spec, null, 2);
+}
+
+/**
+ * Serialize an app's OpenAPI document
+ */
+export function serializeOpenApi(document: OpenApiDocument, format: SpecFormat): string {
+  if (format === 'yaml') {
+    return YAML.stringify(document, { lineWidth: 0 });
+  }
+  return JSON.stringify(document, null, 2);
+}
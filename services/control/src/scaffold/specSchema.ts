@@ -0,0 +1,213 @@
+import { z } from 'zod';
+import { AppSpec } from '@aws-vibe/shared';
+import { getBlueprint, hasBlueprint, listBlueprintNames } from './blueprintRegistry';
+import { JsonValue } from '../models/types';
+
+/**
+ * Runtime schema for AppSpec and every nested type in @aws-vibe/shared. The
+ * objects are strict: an unknown or misspelled key, like requiresauth, is an
+ * error rather than silently dropped.
+ */
+
+const identifierSchema = z
+  .string()
+  .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'must be a valid identifier (letters, digits, underscores)');
+
+export const pageSpecSchema = z.object({
+  route: z.string().regex(/^\/[A-Za-z0-9\-_/[\]]*$/, 'must start with / and contain only URL-safe characters'),
+  components: z.array(identifierSchema),
+  title: z.string().optional(),
+}).strict();
+
+export const apiEndpointSpecSchema = z.object({
+  path: z.string().regex(/^\/[A-Za-z0-9\-_/{}]*$/, 'must start with / and use {param} for path parameters'),
+  method: z.enum(['GET', 'POST', 'PUT', 'DELETE', 'PATCH']),
+  handler: identifierSchema,
+  description: z.string().optional(),
+  requiresAuth: z.boolean().optional(),
+  table: z.string().optional(),
+}).strict();
+
+export const attributeSpecSchema = z.object({
+  name: z.string().min(1),
+  type: z.enum(['string', 'number', 'boolean', 'list', 'map']),
+  required: z.boolean().optional(),
+}).strict();
+
+export const secondaryIndexSpecSchema = z.object({
+  name: z.string().min(1),
+  partitionKey: z.string().min(1),
+  sortKey: z.string().min(1).nullish(),
+  projectionType: z.enum(['ALL', 'KEYS_ONLY', 'INCLUDE']).optional(),
+}).strict();
+
+export const dataModelSpecSchema = z.object({
+  table: z.string().min(1),
+  partitionKey: z.string().min(1),
+  sortKey: z.string().min(1).nullish(),
+  attributes: z.array(attributeSpecSchema).min(1),
+  secondaryIndexes: z.array(secondaryIndexSpecSchema).optional(),
+}).strict();
+
+export const envVarSpecSchema = z.object({
+  name: z.string().regex(/^[A-Z][A-Z0-9_]*$/, 'must be UPPER_SNAKE_CASE'),
+  description: z.string(),
+  required: z.boolean().optional(),
+  defaultValue: z.string().optional(),
+}).strict();
+
+export const generatedCodeSchema = z.object({
+  pages: z.record(z.string()),
+  components: z.record(z.string()),
+  lib: z.record(z.string()),
+  handlers: z.record(z.string()).optional(),
+  tests: z.record(z.string()).optional(),
+}).strict();
+
+export const appSpecSchema = z.object({
+  name: z.string().min(1),
+  blueprint: z.string().min(1),
+  pages: z.array(pageSpecSchema).min(1),
+  api: z.array(apiEndpointSpecSchema),
+  dataModel: z.array(dataModelSpecSchema),
+  auth: z.boolean(),
+  envVars: z.array(envVarSpecSchema).default([]),
+  customDomain: z.boolean().optional(),
+  generatedCode: generatedCodeSchema.optional(),
+}).strict();
+
+export type SpecValidationResult =
+  | { success: true; spec: AppSpec }
+  | { success: false; errors: string[] };
+
+/**
+ * Validate an untrusted spec, returning every problem as a path-qualified message
+ */
+export function validateAppSpec(data: unknown, blueprint?: string): SpecValidationResult {
+  const result = appSpecSchema.safeParse(data);
+
+  const errors = result.success
+    ? []
+    : result.error.errors.map((e) => `${e.path.join('.') || '(root)'}: ${e.message}`);
+
+  if (blueprint && result.success && result.data.blueprint !== blueprint) {
+    errors.push(`blueprint: must be "${blueprint}", got "${result.data.blueprint}"`);
+  }
+
+  if (result.success) {
+    errors.push(...blueprintErrors(result.data as AppSpec));
+
+    const tables = new Set(result.data.dataModel.map((model) => model.table.toLowerCase()));
+    result.data.api.forEach((endpoint, i) => {
+      if (endpoint.table && !tables.has(endpoint.table.toLowerCase())) {
+        errors.push(`api.${i}.table: "${endpoint.table}" is not a table in dataModel`);
+      }
+    });
+  }
+
+  if (!result.success || errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  return { success: true, spec: result.data as AppSpec };
+}
+
+/**
+ * The spec's blueprint must be registered and build every feature the spec uses
+ */
+function blueprintErrors(spec: AppSpec): string[] {
+  if (!hasBlueprint(spec.blueprint)) {
+    return [`blueprint: unknown blueprint "${spec.blueprint}" (available: ${listBlueprintNames().join(', ')})`];
+  }
+
+  const { name, features } = getBlueprint(spec.blueprint);
+  const errors: string[] = [];
+  if (!features.api && spec.api.length > 0) {
+    errors.push(`api: the ${name} blueprint has no API, so api must be empty`);
+  }
+  if (!features.dataModel && spec.dataModel.length > 0) {
+    errors.push(`dataModel: the ${name} blueprint has no database, so dataModel must be empty`);
+  }
+  if (!features.auth && spec.auth) {
+    errors.push(`auth: the ${name} blueprint does not support auth, so auth must be false`);
+  }
+  return errors;
+}
+
+/**
+ * Convert the subset of zod used above into JSON Schema, so model tool
+ * definitions are derived from the same source as runtime validation
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): Record<string, JsonValue> {
+  const def = schema._def;
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return toJsonSchema(def.innerType);
+  }
+  if (schema instanceof z.ZodDefault) {
+    return { ...toJsonSchema(def.innerType), default: def.defaultValue() };
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.entries(shape)
+      .filter(([, value]) => !value.isOptional() && !(value instanceof z.ZodDefault))
+      .map(([key]) => key);
+
+    return {
+      type: 'object',
+      properties: Object.fromEntries(
+        Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])
+      ),
+      required,
+      ...(def.unknownKeys === 'strict' && { additionalProperties: false }),
+    };
+  }
+  if (schema instanceof z.ZodArray) {
+    return {
+      type: 'array',
+      items: toJsonSchema(def.type),
+      ...(def.minLength && { minItems: def.minLength.value }),
+    };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: toJsonSchema(def.valueType) };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: def.values };
+  }
+  if (schema instanceof z.ZodNativeEnum) {
+    return { type: 'string', enum: Object.values(def.values) };
+  }
+  if (schema instanceof z.ZodString) {
+    const regex = schema._def.checks.find(
+      (check): check is Extract<z.ZodStringCheck, { kind: 'regex' }> => check.kind === 'regex'
+    );
+    return { type: 'string', ...(regex && { pattern: regex.regex.source }) };
+  }
+  if (schema instanceof z.ZodNumber) {
+    return { type: 'number' };
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+
+  throw new Error(`Unsupported schema type for JSON Schema conversion: ${def.typeName}`);
+}
+
+export const appSpecJsonSchema = toJsonSchema(appSpecSchema.omit({ generatedCode: true }));
+
+/**
+ * Plan of web source files produced before per-file code generation
+ */
+export const codePlanSchema = z.object({
+  files: z.array(
+    z.object({
+      kind: z.enum(['lib', 'component', 'page']),
+      name: z.string().min(1),
+      description: z.string(),
+      dependsOn: z.array(z.string()).default([]),
+    })
+  ),
+});
+
+export const codePlanJsonSchema = toJsonSchema(codePlanSchema);
@@ -0,0 +1,260 @@
+import * as path from 'path';
+import { AppSpec, CodeVerificationError, SafetyFinding } from '@aws-vibe/shared';
+import { fixCodeFile, codeFilePath } from '../bedrock';
+import { needsNpmInstall } from '../deploy';
+import { AssumedCredentials } from '../util/aws';
+import { codegenConcurrency, mapWithConcurrency } from '../util/concurrency';
+import { execCommand } from '../util/exec';
+import { updateRepo } from './renderRepo';
+import { apiClientContext } from './apiClient';
+import { enforceCodeSafety } from '../safety';
+
+const WORK_DIR = '/work';
+
+export interface CompileError {
+  file: string; // repo-relative path, empty when the output could not be attributed
+  line?: number;
+  column?: number;
+  message: string;
+}
+
+export interface VerificationResult {
+  spec: AppSpec;
+  fixRounds: number;
+  commit?: string;
+  changedFiles: string[];
+  /** Non-blocking safety findings in the final code */
+  safety: SafetyFinding[];
+}
+
+interface GeneratedFile {
+  kind: 'lib' | 'component' | 'page';
+  name: string;
+}
+
+/**
+ * Type-check and build the generated web app before it is deployed.
+ * Files that fail are sent back to the model with their compiler errors, up to
+ * CODE_FIX_ATTEMPTS rounds; each round of fixes is committed to the app repo.
+ * With allowFixes off, failures are reported without calling the model.
+ * Model-written code is safety screened before the first install and after
+ * every round of fixes, so nothing blocked is ever installed or built.
+ */
+export async function verifyGeneratedCode(
+  appId: string,
+  spec: AppSpec,
+  credentials: AssumedCredentials,
+  onStatus?: (step: string, message: string) => void,
+  allowFixes = true
+): Promise<VerificationResult> {
+  const repoPath = path.join(WORK_DIR, appId);
+  const webPath = path.join(repoPath, 'web');
+  const maxRounds = allowFixes ? parseInt(process.env.CODE_FIX_ATTEMPTS || '2', 10) : 0;
+  const concurrency = codegenConcurrency();
+
+  const result: VerificationResult = { spec, fixRounds: 0, changedFiles: [], safety: [] };
+
+  result.safety = await enforceCodeSafety(repoPath, spec, onStatus);
+
+  if (onStatus) onStatus('verify-install', 'Installing web dependencies');
+  if (await needsNpmInstall(webPath)) {
+    const installResult = await execCommand('npm', ['install'], {
+      cwd: webPath,
+      timeout: 300000 // 5 minutes
+    });
+    if (installResult.exitCode !== 0) {
+      throw new Error(`Web npm install failed: ${installResult.stderr}`);
+    }
+  }
+
+  for (let round = 0; ; round++) {
+    if (onStatus) onStatus('verify-typecheck', round === 0 ? 'Type-checking generated web code' : `Re-checking after fix round ${round}`);
+    let errors = await typeCheck(webPath);
+
+    if (errors.length === 0) {
+      if (onStatus) onStatus('verify-build', 'Building generated web app');
+      errors = await buildWeb(webPath);
+      if (errors.length === 0) break;
+    }
+
+    const failing = groupByFile(errors);
+    const generated = generatedFiles(result.spec);
+    const fixable = [...failing.keys()].filter((file) => generated.has(file));
+
+    console.log(`[Verify] ${errors.length} errors in ${failing.size} files (${fixable.length} fixable)`);
+
+    if (fixable.length === 0 || round >= maxRounds) {
+      throw new CodeVerificationError(
+        errors.slice(0, 20).map(formatError),
+        `Generated code failed to compile after ${round} fix rounds: ${[...failing.keys()].map((file) => file || 'build output').join(', ')}`
+      );
+    }
+
+    if (onStatus) onStatus('verify-fix', `Round ${round + 1}/${maxRounds}: fixing ${fixable.length} files with AI`);
+
+    const code = result.spec.generatedCode!;
+    const fixed = {
+      ...code,
+      pages: { ...code.pages },
+      components: { ...code.components },
+      lib: { ...code.lib },
+    };
+    const context = libContext(result.spec);
+
+    await mapWithConcurrency(fixable, concurrency, async (filePath) => {
+      const file = generated.get(filePath)!;
+      const source = sourceOf(code, file);
+      const fileContext = { ...context };
+      delete fileContext[filePath];
+
+      const messages = failing.get(filePath)!.map(formatError);
+      const repaired = await fixCodeFile(result.spec, filePath, source, messages, fileContext, credentials);
+
+      if (file.kind === 'lib') fixed.lib[file.name] = repaired;
+      else if (file.kind === 'component') fixed.components[file.name] = repaired;
+      else fixed.pages[file.name] = repaired;
+    });
+
+    result.spec = { ...result.spec, generatedCode: fixed };
+    const update = await updateRepo(appId, result.spec, `Fix compile errors (round ${round + 1})`);
+    result.commit = update.commit;
+    result.changedFiles = [...new Set([...result.changedFiles, ...update.changedFiles])];
+    result.fixRounds = round + 1;
+    result.safety = await enforceCodeSafety(repoPath, result.spec, onStatus);
+  }
+
+  console.log(`[Verify] Generated code compiles (${result.fixRounds} fix rounds)`);
+  return result;
+}
+
+/**
+ * Run tsc over the web app and collect errors
+ */
+export async function typeCheck(webPath: string): Promise<CompileError[]> {
+  const checkResult = await execCommand('npx', ['tsc', '--noEmit', '--pretty', 'false'], {
+    cwd: webPath,
+    timeout: 180000 // 3 minutes
+  });
+
+  if (checkResult.exitCode === 0) return [];
+
+  const errors = parseTscOutput(`${checkResult.stdout}\n${checkResult.stderr}`);
+  return errors.length > 0 ? errors : [{ file: '', message: tail(checkResult.stderr || checkResult.stdout) }];
+}
+
+/**
+ * Run next build and collect errors (module resolution, build-only type errors)
+ */
+async function buildWeb(webPath: string): Promise<CompileError[]> {
+  const buildResult = await execCommand('npm', ['run', 'build'], {
+    cwd: webPath,
+    env: { NODE_ENV: 'production' },
+    timeout: 300000 // 5 minutes
+  });
+
+  if (buildResult.exitCode === 0) return [];
+
+  const errors = parseNextBuildOutput(`${buildResult.stdout}\n${buildResult.stderr}`);
+  return errors.length > 0 ? errors : [{ file: '', message: tail(buildResult.stderr || buildResult.stdout) }];
+}
+
+/**
+ * Parse `src/pages/index.tsx(12,5): error TS2322: ...` lines
+ */
+function parseTscOutput(output: string): CompileError[] {
+  const errors: CompileError[] = [];
+  const pattern = /^(.+?)\((\d+),(\d+)\): error (TS\d+: .*)$/;
+
+  for (const line of output.split('\n')) {
+    const match = line.trim().match(pattern);
+    if (match) {
+      errors.push({
+        file: path.posix.join('web', match[1]),
+        line: parseInt(match[2], 10),
+        column: parseInt(match[3], 10),
+        message: match[4],
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parse next build failures: a `./src/file.tsx[:line:col]` line followed by the message
+ */
+function parseNextBuildOutput(output: string): CompileError[] {
+  const errors: CompileError[] = [];
+  const lines = output.split('\n').map((line) => line.trim());
+  const pattern = /^\.\/(src\/\S+?)(?::(\d+):(\d+))?$/;
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(pattern);
+    if (!match) continue;
+
+    const message = lines.slice(i + 1).find((line) => line.length > 0);
+    if (!message) continue;
+
+    errors.push({
+      file: path.posix.join('web', match[1]),
+      line: match[2] ? parseInt(match[2], 10) : undefined,
+      column: match[3] ? parseInt(match[3], 10) : undefined,
+      message,
+    });
+  }
+
+  return errors;
+}
+
+function groupByFile(errors: CompileError[]): Map<string, CompileError[]> {
+  const byFile = new Map<string, CompileError[]>();
+  for (const error of errors) {
+    const list = byFile.get(error.file) || [];
+    list.push(error);
+    byFile.set(error.file, list);
+  }
+  return byFile;
+}
+
+function formatError(error: CompileError): string {
+  const location = error.line !== undefined ? `${error.file}:${error.line}:${error.column}` : error.file;
+  return location ? `${location} ${error.message}` : error.message;
+}
+
+/**
+ * Map repo-relative paths to the generated code entries they were written from
+ */
+function generatedFiles(spec: AppSpec): Map<string, GeneratedFile> {
+  const files = new Map<string, GeneratedFile>();
+  const code = spec.generatedCode;
+  if (!code) return files;
+
+  for (const name of Object.keys(code.lib)) files.set(codeFilePath({ kind: 'lib', name }), { kind: 'lib', name });
+  for (const name of Object.keys(code.components)) files.set(codeFilePath({ kind: 'component', name }), { kind: 'component', name });
+  for (const name of Object.keys(code.pages)) files.set(codeFilePath({ kind: 'page', name }), { kind: 'page', name });
+  return files;
+}
+
+function sourceOf(code: NonNullable<AppSpec['generatedCode']>, file: GeneratedFile): string {
+  if (file.kind === 'lib') return code.lib[file.name];
+  if (file.kind === 'component') return code.components[file.name];
+  return code.pages[file.name];
+}
+
+/**
+ * Shared lib files, including the generated API client, are passed to every
+ * fix so the model sees the real exports
+ */
+function libContext(spec: AppSpec): Record<string, string> {
+  const code = spec.generatedCode!;
+  const context = apiClientContext(spec, code);
+  for (const [name, source] of Object.entries(code.lib)) {
+    context[codeFilePath({ kind: 'lib', name })] = source;
+  }
+  return context;
+}
+
+function tail(output: string, maxLength = 2000): string {
+  const trimmed = output.trim();
+  return trimmed.length > maxLength ? `...${trimmed.slice(-maxLength)}` : trimmed;
+}
@@ -0,0 +1,140 @@
+import * as path from 'path';
+import {
+  BatchWriteCommand,
+  BatchWriteCommandInput,
+  DynamoDBDocumentClient,
+  ScanCommand,
+} from '@aws-sdk/lib-dynamodb';
+import {
+  AppSpec,
+  DataModelSpec,
+  DeploymentResult,
+  Environment,
+  SeedAction,
+  SeedTableResult,
+} from '@aws-vibe/shared';
+import { getBlueprint } from './scaffold/blueprintRegistry';
+import { readSeedRecords, SeedRecord } from './scaffold/seedData';
+import { AssumedCredentials, createAssumedClients } from './util/aws';
+
+const WORK_DIR = '/work';
+const BATCH_SIZE = 25; // BatchWriteItem limit
+const MAX_BATCH_ATTEMPTS = 5;
+
+type WriteRequests = NonNullable<BatchWriteCommandInput['RequestItems']>[string];
+
+/**
+ * Load the repo's seed/<table>.json records into a dev stack's DynamoDB tables.
+ * load only fills tables that are still empty, as after a first deploy;
+ * reseed clears each table first and clear only empties it. Prod stacks are
+ * never touched.
+ */
+export async function seedTables(
+  appId: string,
+  spec: AppSpec,
+  deployment: DeploymentResult,
+  credentials: AssumedCredentials,
+  region: string,
+  action: SeedAction | 'load',
+  onStatus?: (step: string, message: string) => void
+): Promise<SeedTableResult[]> {
+  if (deployment.environment !== Environment.DEV) {
+    throw new Error('Seed data is only loaded into dev stacks');
+  }
+  // Blueprints without DynamoDB tables, like containers on Postgres, have no seed loader
+  if (!getBlueprint(spec.blueprint).features.seedData) return [];
+
+  const repoPath = path.join(WORK_DIR, appId);
+  const client = DynamoDBDocumentClient.from(createAssumedClients(credentials, region).dynamodb);
+  const results: SeedTableResult[] = [];
+
+  for (const model of spec.dataModel) {
+    const tableName = deployment.outputs[tableOutputKey(model.table)];
+    const result: SeedTableResult = { table: model.table, tableName: tableName || '', written: 0, deleted: 0 };
+    results.push(result);
+
+    if (!tableName) {
+      result.skipped = 'table is not in the stack outputs';
+      continue;
+    }
+
+    if (action === 'load' && !(await isEmpty(client, tableName))) {
+      result.skipped = 'table already has items';
+      continue;
+    }
+
+    if (action === 'reseed' || action === 'clear') {
+      if (onStatus) onStatus('seed-clear', `Clearing ${model.table}`);
+      result.deleted = await clearTable(client, tableName, model);
+    }
+
+    if (action === 'load' || action === 'reseed') {
+      const records = await readSeedRecords(repoPath, model);
+      if (onStatus) onStatus('seed-load', `Loading ${records.length} seed items into ${model.table}`);
+      result.written = await putItems(client, tableName, records);
+    }
+
+    console.log(`[Seed] ${model.table} (${tableName}): ${result.written} written, ${result.deleted} deleted`);
+  }
+
+  return results;
+}
+
+/**
+ * Stack output key of a table's name, as the serverless stack declares it
+ */
+function tableOutputKey(table: string): string {
+  return `${table}TableName`.replace(/[^a-zA-Z0-9]/g, '');
+}
+
+async function isEmpty(client: DynamoDBDocumentClient, tableName: string): Promise<boolean> {
+  const response = await client.send(new ScanCommand({ TableName: tableName, Limit: 1 }));
+  return !response.Items || response.Items.length === 0;
+}
+
+async function clearTable(client: DynamoDBDocumentClient, tableName: string, model: DataModelSpec): Promise<number> {
+  const keyNames = [model.partitionKey, ...(model.sortKey ? [model.sortKey] : [])];
+  let deleted = 0;
+  let startKey: Record<string, unknown> | undefined;
+
+  do {
+    // Key names go through placeholders since they may be DynamoDB reserved words
+    const response = await client.send(new ScanCommand({
+      TableName: tableName,
+      ProjectionExpression: keyNames.map((_, i) => `#k${i}`).join(', '),
+      ExpressionAttributeNames: Object.fromEntries(keyNames.map((name, i) => [`#k${i}`, name])),
+      ExclusiveStartKey: startKey,
+    }));
+
+    const keys = (response.Items || []) as SeedRecord[];
+    await batchWrite(client, tableName, keys.map((key) => ({ DeleteRequest: { Key: key } })));
+    deleted += keys.length;
+    startKey = response.LastEvaluatedKey;
+  } while (startKey);
+
+  return deleted;
+}
+
+async function putItems(client: DynamoDBDocumentClient, tableName: string, records: SeedRecord[]): Promise<number> {
+  await batchWrite(client, tableName, records.map((record) => ({ PutRequest: { Item: record } })));
+  return records.length;
+}
+
+/**
+ * Write in batches of 25, resending unprocessed requests with a growing delay
+ */
+async function batchWrite(client: DynamoDBDocumentClient, tableName: string, requests: WriteRequests): Promise<void> {
+  for (let start = 0; start < requests.length; start += BATCH_SIZE) {
+    let pending = requests.slice(start, start + BATCH_SIZE);
+
+    for (let attempt = 1; pending.length > 0; attempt++) {
+      if (attempt > MAX_BATCH_ATTEMPTS) {
+        throw new Error(`DynamoDB left ${pending.length} seed writes unprocessed for ${tableName}`);
+      }
+      if (attempt > 1) await new Promise((resolve) => setTimeout(resolve, 200 * 2 ** attempt));
+
+      const response = await client.send(new BatchWriteCommand({ RequestItems: { [tableName]: pending } }));
+      pending = response.UnprocessedItems?.[tableName] || [];
+    }
+  }
+}
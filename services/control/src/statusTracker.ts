@@ -1,3 +1,5 @@
+import { CallProgress } from '@aws-vibe/shared';
+
 /**
  * In-memory status tracking for long-running operations
  */
@@ -13,12 +15,21 @@ export interface JobStatus {
   jobId: string;
   status: 'in_progress' | 'completed' | 'failed';
   updates: StatusUpdate[];
-  result?: any;
+  progress?: CallProgress[];
+  result?: unknown;
   error?: string;
 }
 
+interface ActiveCall {
+  label: string;
+  outputTokens: number;
+  startedAt: number;
+  lastOutputAt: number;
+}
+
 class StatusTracker {
   private jobs: Map<string, JobStatus> = new Map();
+  private calls: Map<string, Set<ActiveCall>> = new Map();
 
   createJob(jobId: string): void {
     this.jobs.set(jobId, {
@@ -40,7 +51,29 @@ class StatusTracker {
     });
   }
 
-  completeJob(jobId: string, result: any): void {
+  /**
+   * Track a model call while it streams; the returned callbacks record output
+   * as it arrives and remove the call once it ends
+   */
+  startCall(jobId: string, label: string): { progress(outputTokens: number): void; end(): void } {
+    const calls = this.calls.get(jobId) || new Set<ActiveCall>();
+    const call: ActiveCall = { label, outputTokens: 0, startedAt: Date.now(), lastOutputAt: Date.now() };
+    calls.add(call);
+    this.calls.set(jobId, calls);
+
+    return {
+      progress: (outputTokens) => {
+        call.outputTokens = outputTokens;
+        call.lastOutputAt = Date.now();
+      },
+      end: () => {
+        calls.delete(call);
+        if (calls.size === 0) this.calls.delete(jobId);
+      },
+    };
+  }
+
+  completeJob(jobId: string, result: unknown): void {
     const job = this.jobs.get(jobId);
     if (!job) return;
 
@@ -57,7 +90,18 @@ class StatusTracker {
   }
 
   getStatus(jobId: string): JobStatus | undefined {
-    return this.jobs.get(jobId);
+    const job = this.jobs.get(jobId);
+    if (!job) return undefined;
+
+    const now = Date.now();
+    const progress = Array.from(this.calls.get(jobId) || []).map((call) => ({
+      label: call.label,
+      outputTokens: call.outputTokens,
+      elapsedMs: now - call.startedAt,
+      idleMs: now - call.lastOutputAt,
+    }));
+
+    return progress.length > 0 ? { ...job, progress } : job;
   }
 
   cleanup(jobId: string): void {
@@ -0,0 +1,200 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { AsyncLocalStorage } from 'async_hooks';
+import { ModelCall, UsageRecord, UsageResponse, UsageTotals } from '@aws-vibe/shared';
+import { ModelUsage } from './models';
+import { estimateCost } from './models/pricing';
+import { ensureDir, exists } from './util/fsx';
+
+/**
+ * Bedrock usage accounting.
+ *
+ * Every model call inside a job is attributed to that job (and its app) via
+ * async context, appended to a JSONL ledger in /data, and totalled for the
+ * job result. The ledger is the source of truth for reports and spending limits.
+ */
+
+const DATA_DIR = '/data';
+const LEDGER_PATH = path.join(DATA_DIR, 'usage.jsonl');
+
+export interface UsageScope {
+  jobId: string;
+  appId?: string;
+  operation: string;
+  /** Set false to total calls without writing them to the ledger (replayed fixtures cost nothing) */
+  ledger?: boolean;
+}
+
+interface ActiveScope extends UsageScope {
+  totals: UsageTotals;
+  calls: ModelCall[];
+}
+
+export interface UsageFilter {
+  since?: string; // YYYY-MM-DD, inclusive
+  appId?: string;
+}
+
+export function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+function addToTotals(totals: UsageTotals, record: Pick<UsageRecord, 'inputTokens' | 'outputTokens' | 'costUsd'>): void {
+  totals.calls++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.costUsd += record.costUsd;
+}
+
+class UsageTracker {
+  private scopes = new AsyncLocalStorage<ActiveScope>();
+
+  /**
+   * Run fn with every model call it makes attributed to the given job
+   */
+  run<T>(scope: UsageScope, fn: () => Promise<T>): Promise<T> {
+    return this.scopes.run({ ...scope, totals: emptyTotals(), calls: [] }, fn);
+  }
+
+  /**
+   * The job the current async context belongs to, if any
+   */
+  scope(): UsageScope | undefined {
+    const scope = this.scopes.getStore();
+    return scope && { jobId: scope.jobId, appId: scope.appId, operation: scope.operation, ledger: scope.ledger };
+  }
+
+  /**
+   * Totals for the job running in the current async context
+   */
+  current(): UsageTotals {
+    const scope = this.scopes.getStore();
+    return scope ? { ...scope.totals } : emptyTotals();
+  }
+
+  /**
+   * Models and regions that served the current job's calls, in call order
+   */
+  currentCalls(): ModelCall[] {
+    const scope = this.scopes.getStore();
+    return scope ? [...scope.calls] : [];
+  }
+
+  async record(call: ModelCall, usage?: ModelUsage): Promise<void> {
+    const scope = this.scopes.getStore();
+    if (scope) scope.calls.push(call);
+    if (!usage) return;
+
+    const { modelId, region } = call;
+    const record: UsageRecord = {
+      timestamp: new Date().toISOString(),
+      jobId: scope?.jobId || 'none',
+      appId: scope?.appId,
+      operation: scope?.operation || 'other',
+      modelId,
+      region,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      costUsd: estimateCost(modelId, usage),
+    };
+
+    if (scope) addToTotals(scope.totals, record);
+    if (scope?.ledger === false) return;
+
+    try {
+      await ensureDir(DATA_DIR);
+      await fs.appendFile(LEDGER_PATH, `${JSON.stringify(record)}\n`);
+    } catch (error) {
+      // Losing a ledger line must not fail the generation that produced it
+      console.error(`[Usage] Failed to write ledger: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Every record in the ledger. Lines that don't parse, like one cut short by
+   * a crash mid-append, are skipped.
+   */
+  async readLedger(): Promise<UsageRecord[]> {
+    if (!(await exists(LEDGER_PATH))) return [];
+
+    const content = await fs.readFile(LEDGER_PATH, 'utf-8');
+    const records: UsageRecord[] = [];
+    content.split('\n').forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        console.warn(`[Usage] Skipping unreadable ledger line ${index + 1}`);
+      }
+    });
+    return records;
+  }
+
+  async summarize(filter: UsageFilter = {}): Promise<UsageResponse> {
+    const records = await this.readLedger();
+    const summary: UsageResponse = {
+      totals: emptyTotals(),
+      byApp: {},
+      byDay: {},
+      byModel: {},
+      limits: this.spend(records),
+    };
+
+    for (const record of records) {
+      if (filter.since && record.timestamp.slice(0, 10) < filter.since) continue;
+      if (filter.appId && record.appId !== filter.appId) continue;
+
+      const day = record.timestamp.slice(0, 10);
+      const app = record.appId || 'unassigned';
+
+      addToTotals(summary.totals, record);
+      addToTotals(summary.byApp[app] ||= emptyTotals(), record);
+      addToTotals(summary.byDay[day] ||= emptyTotals(), record);
+      addToTotals(summary.byModel[record.modelId] ||= emptyTotals(), record);
+    }
+
+    return summary;
+  }
+
+  async appTotals(appId: string): Promise<UsageTotals> {
+    const summary = await this.summarize({ appId });
+    return summary.totals;
+  }
+
+  /**
+   * Reason new generations are blocked, or null while spend is within
+   * SPEND_LIMIT_DAILY_USD and SPEND_LIMIT_MONTHLY_USD
+   */
+  async exceededLimit(): Promise<string | null> {
+    const limits = this.spend(await this.readLedger());
+
+    if (limits.dailyUsd !== undefined && limits.todayUsd >= limits.dailyUsd) {
+      return `Daily Bedrock spending limit of $${limits.dailyUsd.toFixed(2)} reached ($${limits.todayUsd.toFixed(2)} spent today)`;
+    }
+    if (limits.monthlyUsd !== undefined && limits.monthUsd >= limits.monthlyUsd) {
+      return `Monthly Bedrock spending limit of $${limits.monthlyUsd.toFixed(2)} reached ($${limits.monthUsd.toFixed(2)} spent this month)`;
+    }
+    return null;
+  }
+
+  private spend(records: UsageRecord[]): UsageResponse['limits'] {
+    const today = new Date().toISOString().slice(0, 10);
+    const month = today.slice(0, 7);
+    let todayUsd = 0;
+    let monthUsd = 0;
+
+    for (const record of records) {
+      if (record.timestamp.startsWith(month)) monthUsd += record.costUsd;
+      if (record.timestamp.startsWith(today)) todayUsd += record.costUsd;
+    }
+
+    return {
+      dailyUsd: process.env.SPEND_LIMIT_DAILY_USD ? parseFloat(process.env.SPEND_LIMIT_DAILY_USD) : undefined,
+      monthlyUsd: process.env.SPEND_LIMIT_MONTHLY_USD ? parseFloat(process.env.SPEND_LIMIT_MONTHLY_USD) : undefined,
+      todayUsd,
+      monthUsd,
+    };
+  }
+}
+
+export const usageTracker = new UsageTracker();
@@ -6,8 +6,10 @@ import {
 import {
   CloudFormationClient,
   DescribeStacksCommand,
+  ListStackResourcesCommand,
   Stack,
 } from '@aws-sdk/client-cloudformation';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { IAMClient } from '@aws-sdk/client-iam';
 import { S3Client } from '@aws-sdk/client-s3';
 import { BedrockRuntimeClient } from '@aws-sdk/client-bedrock-runtime';
@@ -94,6 +96,7 @@ export function createAssumedClients(
     iam: new IAMClient(clientConfig),
     s3: new S3Client(clientConfig),
     bedrock: new BedrockRuntimeClient(clientConfig),
+    dynamodb: new DynamoDBClient(clientConfig),
   };
 }
 
@@ -146,6 +149,33 @@ export async function getStackStatus(
   }
 }
 
+/**
+ * Check whether a stack has a resource of a type, e.g. AWS::ECS::Service.
+ * A stack that does not exist has none.
+ */
+export async function stackHasResource(
+  cfnClient: CloudFormationClient,
+  stackName: string,
+  resourceType: string
+): Promise<boolean> {
+  let nextToken: string | undefined;
+  try {
+    do {
+      const response = await cfnClient.send(new ListStackResourcesCommand({ StackName: stackName, NextToken: nextToken }));
+      if ((response.StackResourceSummaries || []).some((resource) => resource.ResourceType === resourceType)) {
+        return true;
+      }
+      nextToken = response.NextToken;
+    } while (nextToken);
+    return false;
+  } catch (error) {
+    if ((error as Error).name === 'ValidationError') {
+      return false; // Stack doesn't exist
+    }
+    throw error;
+  }
+}
+
 /**
  * Check if stack exists
  */
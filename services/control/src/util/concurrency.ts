@@ -0,0 +1,35 @@
+import { intSetting } from './env';
+
+/**
+ * Calls in flight at once during code generation and fix rounds, from
+ * CODEGEN_CONCURRENCY (default 4, at least 1)
+ */
+export function codegenConcurrency(): number {
+  return intSetting('CODEGEN_CONCURRENCY', 4, 1);
+}
+
+/**
+ * Run an async function over items with at most `limit` calls in flight.
+ * Results keep the order of the input; the first rejection rejects the whole run.
+ * A limit that is not a finite number runs one call at a time.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const width = Number.isFinite(limit) ? Math.min(limit, items.length) : 1;
+  const workers = Array.from({ length: Math.max(1, width) }, worker);
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,20 @@
+/**
+ * Numeric settings read from environment variables
+ */
+
+/**
+ * A whole-number setting: the fallback when unset, and when set to something
+ * that is not a number, so a typo cannot turn a limit into NaN. Values below
+ * min are raised to it.
+ */
+export function intSetting(name: string, fallback: number, min = 0): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return fallback;
+
+  const value = parseInt(raw, 10);
+  if (!Number.isFinite(value)) {
+    console.warn(`[Config] Ignoring ${name}=${raw}: not a number, using ${fallback}`);
+    return Math.max(min, fallback);
+  }
+  return Math.max(min, value);
+}
@@ -1,9 +1,10 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { exec } from 'child_process';
+import { exec, execFile } from 'child_process';
 import { promisify } from 'util';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 /**
  * Filesystem utilities
@@ -12,19 +13,19 @@ const execAsync = promisify(exec);
 export async function ensureDir(dirPath: string): Promise<void> {
   try {
     await fs.mkdir(dirPath, { recursive: true });
-  } catch (error: any) {
-    if (error.code !== 'EEXIST') {
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
       throw error;
     }
   }
 }
 
-export async function writeJson(filePath: string, data: any): Promise<void> {
+export async function writeJson(filePath: string, data: unknown): Promise<void> {
   await ensureDir(path.dirname(filePath));
   await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
 }
 
-export async function readJson<T = any>(filePath: string): Promise<T> {
+export async function readJson<T = unknown>(filePath: string): Promise<T> {
   const content = await fs.readFile(filePath, 'utf-8');
   return JSON.parse(content);
 }
@@ -48,6 +49,26 @@ export async function writeFile(filePath: string, content: string): Promise<void
   await fs.writeFile(filePath, content, 'utf-8');
 }
 
+export async function appendFile(filePath: string, content: string): Promise<void> {
+  await ensureDir(path.dirname(filePath));
+  await fs.appendFile(filePath, content, 'utf-8');
+}
+
+/**
+ * Write a file only when its content differs, so untouched files keep their history
+ */
+export async function writeFileIfChanged(filePath: string, content: string): Promise<boolean> {
+  if (await exists(filePath)) {
+    const current = await fs.readFile(filePath, 'utf-8');
+    if (current === content) {
+      return false;
+    }
+  }
+
+  await writeFile(filePath, content);
+  return true;
+}
+
 export async function readFile(filePath: string): Promise<string> {
   return await fs.readFile(filePath, 'utf-8');
 }
@@ -78,8 +99,48 @@ export async function initGitRepo(repoPath: string, appName: string): Promise<vo
     await execAsync(`git commit -m "Initial commit for ${appName}"`, { cwd });
 
     console.log(`[Git] Initialized repository in ${repoPath}`);
-  } catch (error: any) {
-    console.error(`[Git] Failed to initialize repository: ${error.message}`);
+  } catch (error) {
+    console.error(`[Git] Failed to initialize repository: ${(error as Error).message}`);
     throw error;
   }
 }
+
+export async function commitRepo(
+  repoPath: string,
+  message: string
+): Promise<{ commit: string; changedFiles: string[] }> {
+  const cwd = repoPath;
+
+  try {
+    await execFileAsync('git', ['add', '-A'], { cwd });
+
+    const { stdout: diff } = await execFileAsync('git', ['diff', '--cached', '--name-only'], { cwd });
+    const changedFiles = diff.split('\n').filter(Boolean);
+
+    if (changedFiles.length > 0) {
+      // execFile keeps user-provided commit messages away from the shell
+      await execFileAsync('git', ['commit', '-m', message], { cwd });
+      console.log(`[Git] Committed ${changedFiles.length} changed files in ${repoPath}`);
+    } else {
+      console.log(`[Git] Nothing to commit in ${repoPath}`);
+    }
+
+    return { commit: await headCommit(repoPath), changedFiles };
+  } catch (error) {
+    console.error(`[Git] Failed to commit changes: ${(error as Error).message}`);
+    throw error;
+  }
+}
+
+/**
+ * Move the repo back to a commit, discarding later commits and changes to tracked files
+ */
+export async function resetRepo(repoPath: string, commit: string): Promise<void> {
+  await execFileAsync('git', ['reset', '--hard', commit], { cwd: repoPath });
+  console.log(`[Git] Reset ${repoPath} to ${commit.slice(0, 7)}`);
+}
+
+export async function headCommit(repoPath: string): Promise<string> {
+  const { stdout } = await execFileAsync('git', ['rev-parse', 'HEAD'], { cwd: repoPath });
+  return stdout.trim();
+}
@@ -1,5 +1,6 @@
 import { z } from 'zod';
-import { Blueprint, Environment } from '@aws-vibe/shared';
+import { Environment, ImageMediaType } from '@aws-vibe/shared';
+import { hasBlueprint, listBlueprintNames } from '../scaffold/blueprintRegistry';
 
 /**
  * Validation schemas
@@ -19,7 +20,9 @@ export const appNameSchema = z
   .max(64)
   .regex(/^[a-zA-Z][a-zA-Z0-9-]*$/, 'App name must start with letter and contain only alphanumeric characters and hyphens');
 
-export const blueprintSchema = z.nativeEnum(Blueprint);
+export const blueprintSchema = z
+  .string()
+  .refine(hasBlueprint, (value) => ({ message: `Unknown blueprint "${value}" (available: ${listBlueprintNames().join(', ')})` }));
 
 export const environmentSchema = z.nativeEnum(Environment);
 
@@ -28,6 +31,45 @@ export const promptSchema = z
   .min(10)
   .max(5000);
 
+/**
+ * Mockup images: at most MAX_IMAGES per request, each a PNG, JPEG, GIF or WebP
+ * of up to MAX_IMAGE_BYTES (Bedrock's per-image limit) whose content matches its type
+ */
+export const MAX_IMAGES = 5;
+export const MAX_IMAGE_BYTES = 3.75 * 1024 * 1024;
+
+const IMAGE_SIGNATURES: Record<ImageMediaType, (bytes: Buffer) => boolean> = {
+  'image/png': (bytes) => bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  'image/jpeg': (bytes) => bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff,
+  'image/gif': (bytes) => /^GIF8[79]a$/.test(bytes.subarray(0, 6).toString('latin1')),
+  'image/webp': (bytes) => bytes.subarray(0, 4).toString('latin1') === 'RIFF' && bytes.subarray(8, 12).toString('latin1') === 'WEBP',
+};
+
+export const mockupImageSchema = z
+  .object({
+    name: z.string().max(200).optional(),
+    mediaType: z.enum(['image/png', 'image/jpeg', 'image/gif', 'image/webp']),
+    data: z.string().regex(/^[A-Za-z0-9+/]+={0,2}$/, 'Image data must be base64, without a data: URL prefix'),
+  })
+  .superRefine((image, ctx) => {
+    const bytes = Buffer.from(image.data, 'base64');
+    const label = image.name || image.mediaType;
+
+    if (bytes.length > MAX_IMAGE_BYTES) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['data'],
+        message: `${label} is ${(bytes.length / 1024 / 1024).toFixed(1)} MB; images must be at most ${MAX_IMAGE_BYTES / 1024 / 1024} MB`,
+      });
+    } else if (!IMAGE_SIGNATURES[image.mediaType](bytes)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['data'],
+        message: `${label} is not a valid ${image.mediaType} image`,
+      });
+    }
+  });
+
 /**
  * Request validation schemas
  */
@@ -43,6 +85,7 @@ export const generateRequestSchema = z.object({
   blueprint: blueprintSchema,
   prompt: promptSchema,
   appName: appNameSchema,
+  images: z.array(mockupImageSchema).max(MAX_IMAGES, `At most ${MAX_IMAGES} images per request`).optional(),
 });
 
 export const publishRequestSchema = z.object({
@@ -54,6 +97,34 @@ export const publishRequestSchema = z.object({
   }),
 });
 
+export const appIdSchema = z.string().uuid();
+
+export const iterateRequestSchema = z.object({
+  accountId: awsAccountIdSchema,
+  region: awsRegionSchema,
+  prompt: promptSchema,
+});
+
+export const importRequestSchema = z.object({
+  accountId: awsAccountIdSchema,
+  region: awsRegionSchema,
+  appName: appNameSchema.optional(),
+  spec: z.union([z.string().min(1), z.record(z.unknown())]),
+});
+
+export const specFormatSchema = z.enum(['json', 'yaml']);
+
+export const usageQuerySchema = z.object({
+  since: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'since must be a YYYY-MM-DD date').optional(),
+  appId: z.string().uuid().optional(),
+});
+
+export const seedRequestSchema = z.object({
+  accountId: awsAccountIdSchema,
+  region: awsRegionSchema,
+  action: z.enum(['reseed', 'clear']),
+});
+
 export const destroyRequestSchema = z.object({
   accountId: awsAccountIdSchema,
   region: awsRegionSchema,
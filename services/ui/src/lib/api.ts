@@ -3,10 +3,13 @@ import {
   ConnectUrlResponse,
   CheckConnectionResponse,
   GenerateResponse,
+  PlanResponse,
+  AppSpec,
+  MockupImage,
   PublishResponse,
   DestroyResponse,
   AppListItem,
-  Blueprint,
+  BlueprintsResponse,
   Environment,
 } from '@aws-vibe/shared';
 
@@ -45,16 +48,48 @@ export const api = {
     });
   },
 
+  async listBlueprints(): Promise<BlueprintsResponse> {
+    return fetchApi('/api/blueprints');
+  },
+
   async generate(
     accountId: string,
     region: string,
-    blueprint: Blueprint,
+    blueprint: string,
     prompt: string,
-    appName: string
+    appName: string,
+    images: MockupImage[] = []
   ): Promise<{ jobId: string }> {
     return fetchApi('/api/generate', {
       method: 'POST',
-      body: JSON.stringify({ accountId, region, blueprint, prompt, appName }),
+      body: JSON.stringify({ accountId, region, blueprint, prompt, appName, images }),
+    });
+  },
+
+  async plan(
+    accountId: string,
+    region: string,
+    blueprint: string,
+    prompt: string,
+    appName: string,
+    images: MockupImage[] = []
+  ): Promise<{ jobId: string }> {
+    return fetchApi('/api/plan', {
+      method: 'POST',
+      body: JSON.stringify({ accountId, region, blueprint, prompt, appName, images }),
+    });
+  },
+
+  async updateSpec(appId: string, spec: AppSpec): Promise<PlanResponse> {
+    return fetchApi(`/api/apps/${appId}/spec`, {
+      method: 'PUT',
+      body: JSON.stringify(spec),
+    });
+  },
+
+  async build(appId: string): Promise<{ jobId: string }> {
+    return fetchApi(`/api/apps/${appId}/build`, {
+      method: 'POST',
     });
   },
 
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Blueprint, Environment, AppListItem } from '@aws-vibe/shared';
+import { Blueprint, BlueprintInfo, CallProgress, Environment, AppListItem, AppSpec, ImageMediaType, LintFinding, MockupImage, SafetyFinding, ModelCall, UsageTotals } from '@aws-vibe/shared';
 import { api } from '../lib/api';
 
 export default function Home() {
@@ -16,14 +16,28 @@ export default function Home() {
 
   // Generate
   const [appName, setAppName] = useState('');
-  const [blueprint, setBlueprint] = useState<Blueprint>(Blueprint.SERVERLESS);
+  const [blueprint, setBlueprint] = useState<string>(Blueprint.SERVERLESS);
+  const [blueprints, setBlueprints] = useState<BlueprintInfo[]>([]);
   const [prompt, setPrompt] = useState('');
+  const [images, setImages] = useState<MockupImage[]>([]);
   const [generating, setGenerating] = useState(false);
   const [generateError, setGenerateError] = useState('');
   const [previewUrl, setPreviewUrl] = useState('');
   const [currentAppId, setCurrentAppId] = useState('');
   const [bedrockError, setBedrockError] = useState('');
   const [generationStatus, setGenerationStatus] = useState<any[]>([]);
+  const [callProgress, setCallProgress] = useState<CallProgress[]>([]);
+  const [jobUsage, setJobUsage] = useState<UsageTotals | null>(null);
+  const [jobModelCalls, setJobModelCalls] = useState<ModelCall[]>([]);
+
+  // Review
+  const [draftAppId, setDraftAppId] = useState('');
+  const [draftSpec, setDraftSpec] = useState<AppSpec | null>(null);
+  const [specText, setSpecText] = useState('');
+  const [specError, setSpecError] = useState('');
+  const [specLint, setSpecLint] = useState<LintFinding[]>([]);
+  const [planSafety, setPlanSafety] = useState<SafetyFinding[]>([]);
+  const [savingSpec, setSavingSpec] = useState(false);
 
   // Publish
   const [publishing, setPublishing] = useState(false);
@@ -48,56 +62,152 @@ export default function Home() {
   }, []);
 
 
-  const handleGenerate = async () => {
-    try {
-      setGenerating(true);
-      setGenerateError('');
-      setBedrockError('');
-      setPreviewUrl('');
-      setGenerationStatus([]);
-
-      // Start generation and get job ID
-      const { jobId } = await api.generate(accountId, region, blueprint, prompt, appName);
-
-      // Poll for status updates
-      const pollInterval = setInterval(async () => {
-        try {
-          const status = await api.getGenerateStatus(jobId);
-
-          // Update status display
-          setGenerationStatus(status.updates || []);
-
-          // Check if job is complete
-          if (status.status === 'completed') {
-            clearInterval(pollInterval);
-            setGenerating(false);
-            setCurrentAppId(status.result.appId);
-            setPreviewUrl(status.result.previewUrl);
-            await loadApps();
-          } else if (status.status === 'failed') {
-            clearInterval(pollInterval);
-            setGenerating(false);
-            setGenerateError(status.error || 'Generation failed');
-
-            // Check for Bedrock access error
-            if (status.error?.includes('Bedrock') || status.error?.includes('bedrock')) {
-              setBedrockError(status.error);
-            }
-          }
-        } catch (error: any) {
-          console.error('Status polling error:', error);
-          // Don't clear interval on transient errors, keep polling
-        }
-      }, 2000); // Poll every 2 seconds
+  /**
+   * Poll a background job until it completes or fails
+   */
+  const pollJob = (jobId: string, onComplete: (result: any) => Promise<void> | void) => {
+    const pollInterval = setInterval(async () => {
+      try {
+        const status = await api.getGenerateStatus(jobId);
 
-      // Cleanup interval after 30 minutes to prevent infinite polling
-      setTimeout(() => {
-        clearInterval(pollInterval);
-        if (generating) {
+        // Update status display
+        setGenerationStatus(status.updates || []);
+        setCallProgress(status.progress || []);
+
+        // Check if job is complete
+        if (status.status === 'completed') {
+          clearInterval(pollInterval);
+          setGenerating(false);
+          setJobUsage(status.result.usage || null);
+          setJobModelCalls(status.result.modelCalls || []);
+          await onComplete(status.result);
+        } else if (status.status === 'failed') {
+          clearInterval(pollInterval);
           setGenerating(false);
-          setGenerateError('Generation timeout - please check your AWS console');
+          setGenerateError(status.error || 'Generation failed');
+
+          // Check for Bedrock access error
+          if (status.error?.includes('Bedrock') || status.error?.includes('bedrock')) {
+            setBedrockError(status.error);
+          }
         }
-      }, 1800000);
+      } catch (error: any) {
+        console.error('Status polling error:', error);
+        // Don't clear interval on transient errors, keep polling
+      }
+    }, 2000); // Poll every 2 seconds
+
+    // Cleanup interval after 30 minutes to prevent infinite polling
+    setTimeout(() => {
+      clearInterval(pollInterval);
+      if (generating) {
+        setGenerating(false);
+        setGenerateError('Generation timeout - please check your AWS console');
+      }
+    }, 1800000);
+  };
+
+  const startJob = () => {
+    setGenerating(true);
+    setGenerateError('');
+    setBedrockError('');
+    setPreviewUrl('');
+    setGenerationStatus([]);
+    setCallProgress([]);
+    setJobUsage(null);
+    setJobModelCalls([]);
+  };
+
+  /**
+   * Read chosen mockup files as base64; the control API checks their type and size
+   */
+  const handleImages = async (files: FileList | null) => {
+    const chosen = await Promise.all(Array.from(files || []).map((file) => new Promise<MockupImage>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve({
+        name: file.name,
+        mediaType: file.type as ImageMediaType,
+        data: String(reader.result).split(',')[1] || '',
+      });
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(file);
+    })));
+    setImages([...images, ...chosen]);
+  };
+
+  const handlePlan = async () => {
+    try {
+      startJob();
+      setDraftAppId('');
+      setDraftSpec(null);
+      setSpecError('');
+      setSpecLint([]);
+      setPlanSafety([]);
+
+      // Start planning and get job ID
+      const { jobId } = await api.plan(accountId, region, blueprint, prompt, appName, images);
+
+      pollJob(jobId, async (result) => {
+        setDraftAppId(result.appId);
+        setDraftSpec(result.spec);
+        setSpecText(JSON.stringify(result.spec, null, 2));
+        setSpecLint(result.lint || []);
+        setPlanSafety(result.safety || []);
+        await loadApps();
+      });
+    } catch (error: any) {
+      setGenerateError(error.message);
+      setGenerating(false);
+    }
+  };
+
+  /**
+   * Save the edited spec; returns false if it could not be parsed or was rejected
+   */
+  const saveSpec = async (): Promise<boolean> => {
+    let edited: AppSpec;
+    try {
+      edited = JSON.parse(specText);
+    } catch (error: any) {
+      setSpecError(`Invalid JSON: ${error.message}`);
+      return false;
+    }
+
+    try {
+      setSavingSpec(true);
+      setSpecError('');
+      const result = await api.updateSpec(draftAppId, edited);
+      setDraftSpec(result.spec);
+      setSpecText(JSON.stringify(result.spec, null, 2));
+      setSpecLint(result.lint || []);
+      return true;
+    } catch (error: any) {
+      setSpecError(error.message);
+      return false;
+    } finally {
+      setSavingSpec(false);
+    }
+  };
+
+  const handleBuild = async () => {
+    if (!draftAppId) return;
+
+    if (specText !== JSON.stringify(draftSpec, null, 2) && !(await saveSpec())) {
+      return;
+    }
+
+    try {
+      startJob();
+
+      const { jobId } = await api.build(draftAppId);
+
+      pollJob(jobId, async (result) => {
+        setDraftAppId('');
+        setDraftSpec(null);
+        setCurrentAppId(result.appId);
+        setPreviewUrl(result.previewUrl);
+        await loadApps();
+      });
     } catch (error: any) {
       setGenerateError(error.message);
       setGenerating(false);
@@ -150,6 +260,9 @@ export default function Home() {
 
   useEffect(() => {
     loadApps();
+    api.listBlueprints()
+      .then((data) => setBlueprints(data.blueprints))
+      .catch((error) => console.error('Failed to load blueprints:', error));
   }, []);
 
   return (
@@ -204,24 +317,17 @@ export default function Home() {
           <div className="form-group">
             <label>Blueprint</label>
             <div className="radio-group">
-              <label>
-                <input
-                  type="radio"
-                  value={Blueprint.SERVERLESS}
-                  checked={blueprint === Blueprint.SERVERLESS}
-                  onChange={(e) => setBlueprint(e.target.value as Blueprint)}
-                />
-                Serverless (Lambda + DynamoDB + S3)
-              </label>
-              <label>
-                <input
-                  type="radio"
-                  value={Blueprint.CONTAINERS}
-                  checked={blueprint === Blueprint.CONTAINERS}
-                  onChange={(e) => setBlueprint(e.target.value as Blueprint)}
-                />
-                Containers (ECS + Aurora + ALB)
-              </label>
+              {blueprints.map((option) => (
+                <label key={option.name}>
+                  <input
+                    type="radio"
+                    value={option.name}
+                    checked={blueprint === option.name}
+                    onChange={(e) => setBlueprint(e.target.value)}
+                  />
+                  {option.displayName}{option.description && ` (${option.description})`}
+                </label>
+              ))}
             </div>
           </div>
 
@@ -235,17 +341,112 @@ export default function Home() {
             />
           </div>
 
+          <div className="form-group">
+            <label>Mockups (optional)</label>
+            <input
+              type="file"
+              accept="image/png,image/jpeg,image/gif,image/webp"
+              multiple
+              onChange={(e) => {
+                handleImages(e.target.files);
+                e.target.value = '';
+              }}
+            />
+            <p>Wireframes, sketches or screenshots: up to 5 images of 3.75 MB each. Needs a Claude 3 or later model.</p>
+            {images.length > 0 && (
+              <ul>
+                {images.map((image, i) => (
+                  <li key={i}>
+                    {image.name}{' '}
+                    <button className="btn btn-small" onClick={() => setImages(images.filter((_, j) => j !== i))}>
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
           <button
-            onClick={handleGenerate}
+            onClick={handlePlan}
             className="btn btn-primary"
             disabled={generating || !appName || !prompt}
           >
-            {generating ? 'Generating...' : 'Generate & Preview'}
+            {generating && !draftSpec ? 'Planning...' : 'Plan App'}
           </button>
 
+          {draftSpec && (
+            <div className="result">
+              <h3>Review Plan</h3>
+              <p>Check what the model decided before anything is built. Edit the spec below if needed.</p>
+
+              <ul>
+                <li><strong>Pages:</strong> {draftSpec.pages.map((page) => `${page.route} (${page.components.join(', ')})`).join('; ')}</li>
+                <li><strong>API:</strong> {draftSpec.api.length > 0 ? draftSpec.api.map((endpoint) => `${endpoint.method} ${endpoint.path}`).join(', ') : 'none'}</li>
+                <li><strong>Data model:</strong> {draftSpec.dataModel.length > 0 ? draftSpec.dataModel.map((model) => model.table).join(', ') : 'none'}</li>
+                <li><strong>Auth:</strong> {draftSpec.auth ? 'enabled' : 'disabled'}</li>
+                <li><strong>Env vars:</strong> {draftSpec.envVars.length > 0 ? draftSpec.envVars.map((envVar) => envVar.name).join(', ') : 'none'}</li>
+              </ul>
+
+              {planSafety.length > 0 && (
+                <div className="alert alert-warning">
+                  <strong>Prompt warnings:</strong>
+                  <ul>
+                    {planSafety.map((finding, i) => (
+                      <li key={i}>{finding.message} ({finding.rule})</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {specLint.length > 0 && (
+                <div className="alert alert-warning">
+                  <strong>Spec checks:</strong>
+                  <ul>
+                    {specLint.map((finding, i) => (
+                      <li key={i}>
+                        <code>{finding.path}</code>: {finding.message}{finding.fixed && ' (fixed)'}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="form-group">
+                <label>Spec (JSON)</label>
+                <textarea
+                  value={specText}
+                  onChange={(e) => setSpecText(e.target.value)}
+                  rows={20}
+                  style={{ fontFamily: 'monospace', fontSize: '0.85rem' }}
+                  disabled={generating}
+                />
+              </div>
+
+              {specError && (
+                <div className="alert alert-error">{specError}</div>
+              )}
+
+              <button
+                onClick={saveSpec}
+                className="btn"
+                disabled={generating || savingSpec}
+              >
+                {savingSpec ? 'Saving...' : 'Save Changes'}
+              </button>
+              <button
+                onClick={handleBuild}
+                className="btn btn-primary"
+                disabled={generating || savingSpec}
+              >
+                {generating ? 'Building...' : 'Build & Deploy'}
+              </button>
+            </div>
+          )}
+
           {generating && (
             <div className="status" style={{ marginTop: '1rem', padding: '1rem', background: '#f0f9ff', border: '1px solid #0ea5e9', borderRadius: '4px' }}>
-              <div style={{ fontWeight: 'bold', marginBottom: '0.5rem' }}>⏳ Deploying your app...</div>
+              <div style={{ fontWeight: 'bold', marginBottom: '0.5rem' }}>⏳ {draftSpec ? 'Deploying your app...' : 'Planning your app...'}</div>
               <div style={{ fontSize: '0.9rem', color: '#666' }}>
                 {generationStatus.length === 0 ? (
                   <div>Starting generation...</div>
@@ -274,6 +475,14 @@ export default function Home() {
                     ))}
                   </div>
                 )}
+                {callProgress.map((call) => (
+                  <div key={call.label} style={{ marginBottom: '0.25rem', paddingLeft: '1rem', fontFamily: 'monospace', fontSize: '0.85rem' }}>
+                    {call.label}: ~{call.outputTokens} tokens, {Math.round(call.elapsedMs / 1000)}s
+                    {call.idleMs >= 20000 && (
+                      <span style={{ color: '#b45309' }}> (no output for {Math.round(call.idleMs / 1000)}s)</span>
+                    )}
+                  </div>
+                ))}
               </div>
             </div>
           )}
@@ -282,6 +491,18 @@ export default function Home() {
             <div className="alert alert-error">{generateError}</div>
           )}
 
+          {jobUsage && !generating && (
+            <p style={{ fontSize: '0.9rem', color: '#666' }}>
+              Bedrock usage: {jobUsage.inputTokens + jobUsage.outputTokens} tokens across {jobUsage.calls} calls, about ${jobUsage.costUsd.toFixed(2)}
+            </p>
+          )}
+
+          {jobModelCalls.some((call) => call.fallback) && !generating && (
+            <p style={{ fontSize: '0.9rem', color: '#b45309' }}>
+              Served by fallback models: {Array.from(new Set(jobModelCalls.filter((call) => call.fallback).map((call) => `${call.modelId} (${call.region})`))).join(', ')}
+            </p>
+          )}
+
           {previewUrl && (
             <div className="result">
               <h3>Preview URL</h3>
@@ -334,7 +555,7 @@ export default function Home() {
             <tbody>
               {apps.map((app) => (
                 <tr key={app.appId}>
-                  <td>{app.appName}</td>
+                  <td>{app.appName}{app.status === 'draft' && ' (draft)'}</td>
                   <td>{app.blueprint}</td>
                   <td>
                     {app.devUrl ? (